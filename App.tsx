@@ -11,6 +11,7 @@ import PlansList from './components/plan/PlansList';
 import LandingPage from './components/LandingPage';
 import LoadingSpinner from './components/LoadingSpinner';
 import BackButton from './components/BackButton';
+import { rememberPlanMember, getPlanMemberId } from './utils/memberSession';
 
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -155,7 +156,7 @@ const PlanDashboardPage: React.FC = () => {
           </div>
         )}
       </div>
-      <PlanDashboard planId={planId} isCreator={!!currentUser} />
+      <PlanDashboard planId={planId} isCreator={!!currentUser} memberId={currentUser ? null : getPlanMemberId(planId)} />
     </div>
 );
 };
@@ -168,10 +169,12 @@ const JoinPlanPage: React.FC = () => {
   const planId = searchParams.get('planId') || undefined;
 
   const handleJoinSuccess = (planId: string, memberId: string) => {
+    rememberPlanMember(planId, memberId);
     navigate(`/plan/${planId}`);
   };
 
   const handleAuthSuccess = (planId: string, member: any) => {
+    rememberPlanMember(planId, member.id);
     navigate(`/plan/${planId}`);
   };
 
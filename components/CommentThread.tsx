@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { CommentAuthor, PlanComment } from '../types/plan';
+import { ReadMarkers } from '../utils/comments';
+import { MAX_COMMENT_LENGTH } from '../services/firebase/comments';
+
+/**
+ * Live comment threads for the whole itinerary, shared by every card
+ */
+export interface Discussion {
+  commentsByThread: Record<string, PlanComment[]>;
+  readMarkers: ReadMarkers;
+  viewer: CommentAuthor | null; // null for viewers who can't be identified, who can only read
+  onPost: (threadKey: string, text: string) => Promise<void>;
+  onRead: (threadKey: string) => void;
+}
+
+interface CommentThreadProps {
+  discussion: Discussion;
+  threadKey: string;
+}
+
+const formatCommentTime = (date: Date) =>
+  date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * A place's discussion thread; marks it read while it's open
+ */
+const CommentThread: React.FC<CommentThreadProps> = ({ discussion, threadKey }) => {
+  const comments = discussion.commentsByThread[threadKey] || [];
+  const { viewer, onRead } = discussion;
+  const [text, setText] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Comments that arrive while the thread is open are read straight away
+  useEffect(() => {
+    onRead(threadKey);
+  }, [threadKey, comments.length]);
+
+  const handlePost = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+
+    setPosting(true);
+    setError(null);
+    try {
+      await discussion.onPost(threadKey, text);
+      setText('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(event) => event.stopPropagation()}>
+      {comments.length === 0 ? (
+        <p className="text-xs text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {comments.map((comment) => (
+            <li key={comment.id} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 text-sm">
+              <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500 mb-0.5">
+                <span className="font-semibold text-gray-800 dark:text-gray-200">{comment.authorName}</span>
+                {comment.authorRole === 'creator' && (
+                  <span className="bg-indigo-100 text-indigo-700 px-1.5 rounded-full font-semibold">Creator</span>
+                )}
+                {viewer?.id === comment.authorId && <span>(you)</span>}
+                <span>· {formatCommentTime(comment.createdAt)}</span>
+              </div>
+              <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">{comment.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {viewer ? (
+        <form onSubmit={handlePost} className="flex gap-2 items-end">
+          <textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            placeholder={`Comment as ${viewer.name}...`}
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={2}
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-800 rounded-lg resize-y"
+          />
+          <button
+            type="submit"
+            disabled={posting || !text.trim()}
+            className="px-3 py-1.5 text-sm rounded-full font-bold bg-indigo-500 text-white hover:bg-indigo-600 disabled:bg-gray-400 transition-colors"
+          >
+            {posting ? 'Posting...' : 'Post'}
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500">Join this plan on this device to comment.</p>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -3,16 +3,41 @@ import { AnimatePresence, motion } from "motion/react";
 import { useOutsideClick } from "../hooks/use-outside-click";
 import { ItineraryItem, GroundingChunk } from "../types";
 import { getLocationImage } from "../utils/getLocationImage";
+import GroundingBadge from "./GroundingBadge";
+import { formatCostRange } from "../utils/costs";
+import { getPlaceKey } from "../utils/placeKey";
+import VoteButtons, { Voting } from "./VoteButtons";
+import CommentThread, { Discussion } from "./CommentThread";
+import { countUnread } from "../utils/comments";
 
 interface ExpandableItineraryCardProps {
   item: ItineraryItem;
   dayTitle: string;
   dayNumber: number;
   sources?: GroundingChunk[];
+  onSuggestAlternatives?: () => Promise<ItineraryItem[]>; // Shown as an action when provided
+  onSwapItem?: (alternative: ItineraryItem) => Promise<void>;
+  voting?: Voting; // Shows vote tallies (and buttons, for members) when provided
+  discussion?: Discussion; // Shows the item's comment thread when provided
+  onTogglePin?: (pinned: boolean) => void; // Shown as an action when provided
 }
 
-const ExpandableItineraryCard: React.FC<ExpandableItineraryCardProps> = ({ item, dayTitle, dayNumber, sources = [] }) => {
+const ExpandableItineraryCard: React.FC<ExpandableItineraryCardProps> = ({
+  item,
+  dayTitle,
+  dayNumber,
+  sources = [],
+  onSuggestAlternatives,
+  onSwapItem,
+  voting,
+  discussion,
+  onTogglePin,
+}) => {
   const [active, setActive] = useState<boolean>(false);
+  const [alternatives, setAlternatives] = useState<ItineraryItem[]>([]);
+  const [loadingAlternatives, setLoadingAlternatives] = useState(false);
+  const [swappingIndex, setSwappingIndex] = useState<number | null>(null);
+  const [alternativesError, setAlternativesError] = useState<string | null>(null);
   const ref = useRef<HTMLDivElement>(null);
   const id = useId();
 
@@ -77,6 +102,45 @@ const ExpandableItineraryCard: React.FC<ExpandableItineraryCardProps> = ({ item,
     loadImage();
   }, [item.activity, item.googleMapsLink, sources]);
 
+  // Alternatives belong to the item they were requested for
+  useEffect(() => {
+    setAlternatives([]);
+    setAlternativesError(null);
+  }, [item.activity, item.time]);
+
+  const handleSuggestAlternatives = async () => {
+    if (!onSuggestAlternatives) return;
+    setLoadingAlternatives(true);
+    setAlternativesError(null);
+    try {
+      setAlternatives(await onSuggestAlternatives());
+    } catch (error: any) {
+      setAlternativesError(error.message || 'Failed to load alternatives');
+    } finally {
+      setLoadingAlternatives(false);
+    }
+  };
+
+  const handleSwap = async (alternative: ItineraryItem, index: number) => {
+    if (!onSwapItem) return;
+    setSwappingIndex(index);
+    setAlternativesError(null);
+    try {
+      await onSwapItem(alternative);
+      setActive(false);
+    } catch (error: any) {
+      setAlternativesError(error.message || 'Failed to swap item');
+    } finally {
+      setSwappingIndex(null);
+    }
+  };
+
+  const placeKey = getPlaceKey("item", item.activity);
+  const commentCount = discussion?.commentsByThread[placeKey]?.length || 0;
+  const unreadCount = discussion
+    ? countUnread(discussion.commentsByThread[placeKey], discussion.readMarkers[placeKey], discussion.viewer?.id || null)
+    : 0;
+
   const cardData = {
     title: item.activity,
     description: `${item.time} • ${item.location}`,
@@ -120,6 +184,8 @@ const ExpandableItineraryCard: React.FC<ExpandableItineraryCardProps> = ({ item,
                   <h5 className="font-bold text-amber-800 dark:text-amber-200 flex items-center gap-2">
                     <span className="text-lg">💎</span>
                     Hidden Gem: {item.hiddenGem.name}
+                    <GroundingBadge provenance={item.hiddenGem.provenance} unverifiedLink={item.hiddenGem.unverifiedLink} sources={sources} />
+                    {voting && <VoteButtons voting={voting} voteKey={getPlaceKey("gem", item.hiddenGem.name)} />}
                   </h5>
                   {item.hiddenGem.googleMapsLink && (
                     <a 
@@ -156,6 +222,90 @@ const ExpandableItineraryCard: React.FC<ExpandableItineraryCardProps> = ({ item,
               </div>
             </div>
           )}
+
+          {onTogglePin && (
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700 w-full">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  {item.pinned
+                    ? "Pinned: regenerations keep this on its day and at its time."
+                    : "Already booked? Pin it so regenerations keep it."}
+                </p>
+                <button
+                  onClick={() => onTogglePin(!item.pinned)}
+                  className={`px-3 py-1.5 text-sm rounded-full font-bold whitespace-nowrap transition-colors ${
+                    item.pinned ? "bg-gray-200 text-gray-800 hover:bg-gray-300" : "bg-amber-500 text-white hover:bg-amber-600"
+                  }`}
+                >
+                  {item.pinned ? "Unpin" : "📌 Pin"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {discussion && (
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700 w-full">
+              <p className="font-semibold text-gray-900 dark:text-gray-100 mb-3">💬 Discussion</p>
+              <CommentThread discussion={discussion} threadKey={placeKey} />
+            </div>
+          )}
+
+          {onSuggestAlternatives && (
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700 w-full">
+              <div className="flex items-center justify-between mb-3">
+                <p className="font-semibold text-gray-900 dark:text-gray-100">Not feeling it?</p>
+                <button
+                  onClick={handleSuggestAlternatives}
+                  disabled={loadingAlternatives || swappingIndex !== null}
+                  className="px-3 py-1.5 text-sm rounded-full font-bold bg-indigo-500 text-white hover:bg-indigo-600 disabled:bg-gray-400 transition-colors"
+                >
+                  {loadingAlternatives ? '🔄 Finding...' : alternatives.length > 0 ? '🔄 More options' : '🔀 Suggest alternatives'}
+                </button>
+              </div>
+
+              {alternativesError && (
+                <p className="text-sm text-red-600 mb-3">{alternativesError}</p>
+              )}
+
+              <div className="space-y-2">
+                {alternatives.map((alternative, index) => (
+                  <div
+                    key={`${alternative.activity}-${index}`}
+                    className="bg-indigo-50 dark:bg-indigo-900/20 rounded-lg p-3 border border-indigo-200 dark:border-indigo-800"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1">
+                        <p className="font-semibold text-gray-900 dark:text-gray-100">{alternative.activity}</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">{alternative.time} • {alternative.location}</p>
+                        <p className="text-sm text-gray-700 dark:text-gray-300">{alternative.description}</p>
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        {onSwapItem && (
+                          <button
+                            onClick={() => handleSwap(alternative, index)}
+                            disabled={swappingIndex !== null}
+                            className="px-3 py-1.5 text-xs rounded-full font-bold bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-400 transition-colors"
+                          >
+                            {swappingIndex === index ? 'Swapping...' : 'Swap in'}
+                          </button>
+                        )}
+                        {alternative.googleMapsLink && (
+                          <a
+                            href={alternative.googleMapsLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="px-3 py-1.5 text-xs text-center rounded-full font-bold bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                          >
+                            Map
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       );
     },
@@ -269,6 +419,31 @@ const ExpandableItineraryCard: React.FC<ExpandableItineraryCardProps> = ({ item,
               <span className="bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 px-2 py-0.5 rounded-full text-xs font-semibold">
                 🕐 {item.time}
               </span>
+              {item.pinned && (
+                <span
+                  className="bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200 px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap"
+                  title="Pinned: regenerations keep this on its day and at its time"
+                >
+                  📌 Pinned
+                </span>
+              )}
+              {item.estimatedCost && (
+                <span className="bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap">
+                  💵 {formatCostRange(item.estimatedCost, item.estimatedCost.currency)}
+                </span>
+              )}
+              <GroundingBadge provenance={item.provenance} unverifiedLink={item.unverifiedLink} sources={sources} />
+              {voting && <VoteButtons voting={voting} voteKey={placeKey} />}
+              {commentCount > 0 && (
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${
+                    unreadCount > 0 ? "bg-sky-500 text-white" : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300"
+                  }`}
+                  title={unreadCount > 0 ? `${unreadCount} unread` : "Comments"}
+                >
+                  💬 {commentCount}{unreadCount > 0 && ` · ${unreadCount} new`}
+                </span>
+              )}
             </div>
             <motion.h3
               layoutId={`title-${cardData.title}-${id}`}
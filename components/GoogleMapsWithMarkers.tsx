@@ -1,8 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Itinerary, DailyPlan } from '../types';
+import { Itinerary, DailyPlan, Hotel } from '../types';
+import { isSelectedHotel, getHotelsWithSelected } from '../utils/selectedHotel';
 
 interface GoogleMapsWithMarkersProps {
   itinerary: Itinerary;
+  selectedHotel?: Hotel | null; // The group's base, drawn as a larger pinned marker
 }
 
 interface Location {
@@ -11,6 +13,7 @@ interface Location {
   day: string;
   time?: string;
   type: 'hotel' | 'activity' | 'hidden-gem';
+  pinned?: boolean; // The selected base hotel
   coordinates?: { lat: number; lng: number };
 }
 
@@ -21,7 +24,7 @@ declare global {
   }
 }
 
-const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary }) => {
+const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary, selectedHotel = null }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [map, setMap] = useState<any>(null);
   const [markers, setMarkers] = useState<any[]>([]);
@@ -29,6 +32,12 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
   const [error, setError] = useState<string | null>(null);
   const [isGeocoding, setIsGeocoding] = useState(false);
 
+  // The selected hotel is shown even if a regeneration dropped it from the recommendations
+  const hotels = React.useMemo(
+    () => getHotelsWithSelected(itinerary.recommendedHotels, selectedHotel),
+    [itinerary, selectedHotel]
+  );
+
   // Extract all locations with coordinates
   const locations: Location[] = React.useMemo(() => {
     const locs: Location[] = [];
@@ -103,15 +112,17 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
     };
 
     // Add hotels
-    itinerary.recommendedHotels.forEach((hotel) => {
+    hotels.forEach((hotel) => {
       if (hotel.googleMapsLink) {
         const coordinates = extractCoordinates(hotel.googleMapsLink);
         if (coordinates) {
+          const pinned = isSelectedHotel(hotel, selectedHotel);
           locs.push({
             name: hotel.name,
             link: hotel.googleMapsLink,
-            day: 'Hotels',
+            day: pinned ? 'Base hotel (whole trip)' : 'Hotels',
             type: 'hotel',
+            pinned,
             coordinates,
           });
         } else {
@@ -157,7 +168,7 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
     });
 
     // Debug: Log how many locations we found
-    const totalPlaces = itinerary.recommendedHotels.length + itinerary.dailyItinerary.reduce((sum, day) => sum + day.items.length, 0);
+    const totalPlaces = hotels.length + itinerary.dailyItinerary.reduce((sum, day) => sum + day.items.length, 0);
     console.log(`📍 Found ${locs.length} locations with coordinates out of ${totalPlaces} total places`);
     
     if (locs.length === 0 && totalPlaces > 0) {
@@ -165,7 +176,7 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
     }
 
     return locs;
-  }, [itinerary]);
+  }, [itinerary, hotels, selectedHotel]);
 
   // Load Google Maps script
   useEffect(() => {
@@ -315,16 +326,18 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
         const geocodedLocs: Location[] = [];
         
         // Try to geocode hotels
-        console.log(`Geocoding ${itinerary.recommendedHotels.length} hotels...`);
-        for (const hotel of itinerary.recommendedHotels) {
+        console.log(`Geocoding ${hotels.length} hotels...`);
+        for (const hotel of hotels) {
           if (hotel.googleMapsLink && hotel.name) {
             const coords = await geocodeLocation(hotel.googleMapsLink, hotel.name);
             if (coords) {
+              const pinned = isSelectedHotel(hotel, selectedHotel);
               geocodedLocs.push({
                 name: hotel.name,
                 link: hotel.googleMapsLink,
-                day: 'Hotels',
+                day: pinned ? 'Base hotel (whole trip)' : 'Hotels',
                 type: 'hotel',
+                pinned,
                 coordinates: coords,
               });
             }
@@ -385,7 +398,7 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
     }
 
     initializeMap(locations);
-  }, [isLoaded, locations, itinerary, isGeocoding]);
+  }, [isLoaded, locations, itinerary, hotels, isGeocoding]);
 
   const initializeMap = (locs: Location[]) => {
     if (!mapRef.current || !window.google || locs.length === 0) {
@@ -410,7 +423,7 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
       setMap(mapInstance);
 
       // Create custom marker icons
-      const getMarkerIcon = (type: 'hotel' | 'activity' | 'hidden-gem') => {
+      const getMarkerIcon = (type: 'hotel' | 'activity' | 'hidden-gem', pinned: boolean) => {
         const colors = {
           hotel: '#FF6B6B',      // Red for hotels
           activity: '#4ECDC4',    // Teal for activities
@@ -423,11 +436,11 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
           'hidden-gem': '💎'
         };
 
-        // Create a custom SVG icon
+        // Create a custom SVG icon; the base hotel is larger and indigo so it stands out from the other hotels
         const svgIcon = {
           path: window.google.maps.SymbolPath.CIRCLE,
-          scale: 8,
-          fillColor: colors[type],
+          scale: pinned ? 12 : 8,
+          fillColor: pinned ? '#6366F1' : colors[type],
           fillOpacity: 1,
           strokeColor: '#FFFFFF',
           strokeWeight: 2,
@@ -444,8 +457,11 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
         const marker = new window.google.maps.Marker({
           position: location.coordinates,
           map: mapInstance,
-          title: location.name,
-          icon: getMarkerIcon(location.type),
+          title: location.pinned ? `Base hotel: ${location.name}` : location.name,
+          icon: getMarkerIcon(location.type, !!location.pinned),
+          label: location.pinned ? { text: '📌', fontSize: '14px' } : undefined,
+          // Keep the base hotel on top of any activity marker next to it
+          zIndex: location.pinned ? 1000 : undefined,
           animation: window.google.maps.Animation.DROP,
         });
 
@@ -453,7 +469,7 @@ const GoogleMapsWithMarkers: React.FC<GoogleMapsWithMarkersProps> = ({ itinerary
         const infoContent = `
           <div style="padding: 8px; min-width: 200px;">
             <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: bold; color: #333;">
-              ${location.type === 'hotel' ? '🏨' : location.type === 'hidden-gem' ? '💎' : '📍'} ${location.name}
+              ${location.pinned ? '📌' : location.type === 'hotel' ? '🏨' : location.type === 'hidden-gem' ? '💎' : '📍'} ${location.name}
             </h3>
             <p style="margin: 4px 0; font-size: 12px; color: #666;">
               <strong>Day:</strong> ${location.day}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { PlaceProvenance, GroundingChunk } from '../types';
+import { needsDoubleCheck } from '../utils/matchSources';
+
+interface GroundingBadgeProps {
+  provenance?: PlaceProvenance;
+  unverifiedLink?: string; // A made-up link that was removed from the place
+  sources?: GroundingChunk[]; // Used to name the source a weak match was made against
+}
+
+/**
+ * Flags places the group should double-check before relying on them; renders nothing for well-grounded places
+ */
+const GroundingBadge: React.FC<GroundingBadgeProps> = ({ provenance, unverifiedLink, sources = [] }) => {
+  if (!provenance || !needsDoubleCheck(provenance)) return null;
+
+  let label: string;
+  let detail: string;
+  if (provenance.sourceIndex === null) {
+    label = 'Not verified';
+    if (unverifiedLink) {
+      detail = 'The AI wrote its own map link for this place instead of one from a Google Maps lookup, so the link was removed. Double-check this place before booking.';
+    } else if (provenance.method === 'model') {
+      // Older plans kept model links that weren't in the grounding sources
+      detail = 'The map link was written by the AI rather than found in a Google Maps lookup. Double-check this place before booking.';
+    } else {
+      detail = 'No Google Maps lookup backs this place. Double-check that it exists before booking.';
+    }
+  } else {
+    const sourceTitle = sources[provenance.sourceIndex]?.maps?.title;
+    label = 'Check match';
+    detail = `Matched by name${sourceTitle ? ` to "${sourceTitle}"` : ''} with ${Math.round(provenance.confidence * 100)}% confidence. The map link may point to a different place.`;
+  }
+
+  return (
+    <span
+      title={detail}
+      className="inline-flex items-center gap-1 bg-amber-100 text-amber-800 border border-amber-300 px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap"
+    >
+      ⚠️ {label}
+    </span>
+  );
+};
+
+export default GroundingBadge;
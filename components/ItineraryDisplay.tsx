@@ -1,13 +1,55 @@
-import React from 'react';
-import { Itinerary, DailyPlan, Hotel, GroundingChunk } from '../types';
+import React, { useState } from 'react';
+import { Itinerary, DailyPlan, Hotel, ItineraryItem, GroundingChunk } from '../types';
 import ExpandableItineraryCard from './ExpandableItineraryCard';
+import GroundingBadge from './GroundingBadge';
+import TravelLeg from './TravelLeg';
+import TravelMap from './TravelMap';
+import VoteButtons, { Voting } from './VoteButtons';
+import { getPlaceKey } from '../utils/placeKey';
+import { getFavoriteHotel } from '../utils/votes';
+import { isSelectedHotel, getHotelsWithSelected } from '../utils/selectedHotel';
+import CommentThread, { Discussion } from './CommentThread';
+import { countUnread, countDayUnread } from '../utils/comments';
+import { useTravelChecks } from '../hooks/use-travel-checks';
+import { formatDayDate } from '../utils/tripDates';
+import { getDayCost, getTripCurrency, formatCostRange } from '../utils/costs';
 
 interface ItineraryDisplayProps {
   itinerary: Itinerary;
   sources: GroundingChunk[];
+  isStreaming?: boolean; // True while the itinerary is still being generated
+  onRegenerateDay?: (dayIndex: number) => void; // Shown as a per-day action when provided
+  regeneratingDayIndex?: number | null;
+  onSuggestAlternatives?: (dayIndex: number, itemIndex: number) => Promise<ItineraryItem[]>;
+  onSwapItem?: (dayIndex: number, itemIndex: number, alternative: ItineraryItem) => Promise<void>;
+  voting?: Voting;
+  discussion?: Discussion;
+  selectedHotel?: Hotel | null; // The group's base hotel, pinned at the top of the hotel list
+  onSelectHotel?: (hotel: Hotel | null) => void; // Creator only; null clears the selection
+  onTogglePin?: (dayIndex: number, itemIndex: number, pinned: boolean) => void; // Creator only
 }
 
-const ItineraryDisplay: React.FC<ItineraryDisplayProps> = ({ itinerary, sources }) => {
+const ItineraryDisplay: React.FC<ItineraryDisplayProps> = ({
+  itinerary,
+  sources,
+  isStreaming = false,
+  onRegenerateDay,
+  regeneratingDayIndex = null,
+  onSuggestAlternatives,
+  onSwapItem,
+  voting,
+  discussion,
+  selectedHotel = null,
+  onSelectHotel,
+  onTogglePin,
+}) => {
+  const tripCurrency = getTripCurrency(itinerary);
+  const travelChecks = useTravelChecks(itinerary.dailyItinerary, isStreaming);
+  const [openHotelThread, setOpenHotelThread] = useState<string | null>(null);
+  const viewerId = discussion?.viewer?.id || null;
+  const hotels = getHotelsWithSelected(itinerary.recommendedHotels, selectedHotel);
+  const favoriteHotel = voting ? getFavoriteHotel(itinerary.recommendedHotels, voting.tallies) : null;
+
   return (
     <div className="max-w-7xl mx-auto p-4 md:p-6 space-y-6 md:space-y-8">
       {/* Trip Header */}
@@ -15,7 +57,7 @@ const ItineraryDisplay: React.FC<ItineraryDisplayProps> = ({ itinerary, sources
         <div className="absolute top-0 right-0 text-7xl md:text-9xl opacity-10">✈️</div>
         <div className="absolute bottom-0 left-0 text-6xl md:text-8xl opacity-10">🌍</div>
         <div className="relative z-10">
-          <h1 className="text-3xl md:text-5xl font-bold mb-3 break-words">{itinerary.tripTitle}</h1>
+          <h1 className="text-3xl md:text-5xl font-bold mb-3 break-words">{itinerary.tripTitle || (isStreaming ? '✨ Planning your trip...' : '')}</h1>
           <div className="flex flex-wrap gap-4 mt-4 text-sm md:text-base">
             <div className="flex items-center gap-2 bg-white/20 px-3 py-1.5 rounded-full">
               <span>📅</span>
@@ -61,40 +103,117 @@ const ItineraryDisplay: React.FC<ItineraryDisplayProps> = ({ itinerary, sources
       </div>
 
       {/* Hotels - Quick Reference */}
-      {itinerary.recommendedHotels.length > 0 && (
+      {hotels.length > 0 && (
         <div className="bg-white rounded-xl md:rounded-2xl p-5 md:p-6 shadow-lg border border-gray-200">
           <h2 className="text-xl md:text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
             <span className="text-3xl">🏨</span>
             <span>Recommended Hotels</span>
           </h2>
+          {selectedHotel ? (
+            <p className="text-xs md:text-sm text-gray-600 -mt-2 mb-4">
+              📌 The group is based at <span className="font-semibold">{selectedHotel.name}</span>. Regenerated days start and end near it.
+            </p>
+          ) : onSelectHotel && !isStreaming ? (
+            <p className="text-xs md:text-sm text-gray-600 -mt-2 mb-4">
+              Pick the group's base hotel and regenerated days will start and end near it.
+            </p>
+          ) : null}
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {itinerary.recommendedHotels.map((hotel: Hotel, index: number) => (
-              <div 
-                key={index} 
-                className="bg-gradient-to-br from-orange-50 to-amber-50 rounded-xl p-4 border-2 border-orange-200 hover:border-orange-400 hover:shadow-lg transition-all"
-              >
-                <h3 className="font-bold text-gray-800 mb-2 text-sm md:text-base break-words">{hotel.name}</h3>
-                <div className="flex items-start gap-2 mb-2">
-                  <span className="text-lg">📍</span>
-                  <p className="text-xs text-gray-600 flex-1 break-words">{hotel.location}</p>
+            {hotels.map((hotel: Hotel, index: number) => {
+              const isBase = isSelectedHotel(hotel, selectedHotel);
+              return (
+                <div 
+                  key={index} 
+                  className={`bg-gradient-to-br from-orange-50 to-amber-50 rounded-xl p-4 border-2 hover:shadow-lg transition-all ${
+                    isBase ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-orange-200 hover:border-orange-400'
+                  }`}
+                >
+                  {(isBase || hotel === favoriteHotel) && (
+                    <div className="flex flex-wrap gap-1.5 mb-2">
+                      {isBase && (
+                        <span className="bg-indigo-500 text-white text-[11px] font-semibold px-2 py-0.5 rounded-full">📌 Our base</span>
+                      )}
+                      {hotel === favoriteHotel && (
+                        <span className="bg-green-100 text-green-800 text-[11px] font-semibold px-2 py-0.5 rounded-full">🗳️ Group favorite</span>
+                      )}
+                    </div>
+                  )}
+                  <h3 className="font-bold text-gray-800 mb-2 text-sm md:text-base break-words">{hotel.name}</h3>
+                  {hotel.provenance && (
+                    <div className="mb-2">
+                      <GroundingBadge provenance={hotel.provenance} unverifiedLink={hotel.unverifiedLink} sources={sources} />
+                    </div>
+                  )}
+                  {voting && (
+                    <div className="mb-2">
+                      <VoteButtons voting={voting} voteKey={getPlaceKey('hotel', hotel.name)} />
+                    </div>
+                  )}
+                  <div className="flex items-start gap-2 mb-2">
+                    <span className="text-lg">📍</span>
+                    <p className="text-xs text-gray-600 flex-1 break-words">{hotel.location}</p>
+                  </div>
+                  {hotel.estimatedCost && (
+                    <p className="text-xs text-gray-700 font-semibold mb-2">
+                      💵 {formatCostRange(hotel.estimatedCost, hotel.estimatedCost.currency)} per person per night
+                    </p>
+                  )}
+                  {hotel.googleMapsLink && (
+                    <a 
+                      href={hotel.googleMapsLink} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-700 bg-blue-50 px-3 py-1.5 rounded-lg hover:bg-blue-100 transition-colors"
+                    >
+                      <span>🗺️</span>
+                      Open Maps
+                    </a>
+                  )}
+                  {discussion && (() => {
+                    const placeKey = getPlaceKey('hotel', hotel.name);
+                    const commentCount = discussion.commentsByThread[placeKey]?.length || 0;
+                    const unreadCount = countUnread(discussion.commentsByThread[placeKey], discussion.readMarkers[placeKey], viewerId);
+                    const isOpen = openHotelThread === placeKey;
+                    return (
+                      <div className="mt-2">
+                        <button
+                          onClick={() => setOpenHotelThread(isOpen ? null : placeKey)}
+                          className={`text-xs font-semibold px-3 py-1.5 rounded-lg transition-colors ${
+                            unreadCount > 0 ? 'bg-sky-500 text-white hover:bg-sky-600' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200'
+                          }`}
+                        >
+                          💬 {isOpen ? 'Hide comments' : `Comments (${commentCount})`}{unreadCount > 0 && !isOpen && ` · ${unreadCount} new`}
+                        </button>
+                        {isOpen && (
+                          <div className="mt-2">
+                            <CommentThread discussion={discussion} threadKey={placeKey} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+                  {onSelectHotel && !isStreaming && (
+                    <div className="mt-2">
+                      <button
+                        onClick={() => onSelectHotel(isBase ? null : hotel)}
+                        className={`text-xs font-semibold px-3 py-1.5 rounded-lg transition-colors ${
+                          isBase ? 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200' : 'bg-indigo-500 text-white hover:bg-indigo-600'
+                        }`}
+                      >
+                        {isBase ? 'Unpin base hotel' : '📌 Make this our base'}
+                      </button>
+                    </div>
+                  )}
                 </div>
-                {hotel.googleMapsLink && (
-                  <a 
-                    href={hotel.googleMapsLink} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-1 text-xs font-semibold text-blue-600 hover:text-blue-700 bg-blue-50 px-3 py-1.5 rounded-lg hover:bg-blue-100 transition-colors"
-                  >
-                    <span>🗺️</span>
-                    Open Maps
-                  </a>
-                )}
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
 
+      {/* Every place on one map, with the base hotel pinned; loaded once the itinerary has finished streaming */}
+      {!isStreaming && <TravelMap itinerary={itinerary} selectedHotel={selectedHotel} />}
+
       {/* Daily Itinerary - Travel Timeline */}
       <div>
         <h2 className="text-2xl md:text-3xl font-bold text-gray-800 mb-6 flex items-center gap-2">
@@ -112,12 +231,39 @@ const ItineraryDisplay: React.FC<ItineraryDisplayProps> = ({ itinerary, sources
                       {dayIndex === 0 ? '🌅' : dayIndex === itinerary.dailyItinerary.length - 1 ? '🌇' : '☀️'}
                     </span>
                     <div>
-                      <h3 className="text-xl md:text-2xl font-bold">{day.day}</h3>
+                      <h3 className="text-xl md:text-2xl font-bold">
+                        {day.day}
+                        {formatDayDate(day) && (
+                          <span className="ml-2 text-sm md:text-base font-medium text-indigo-100">{formatDayDate(day)}</span>
+                        )}
+                      </h3>
                       <p className="text-sm md:text-base text-indigo-100">{day.title}</p>
                     </div>
                   </div>
-                  <div className="bg-white/20 px-3 py-1.5 rounded-full text-sm">
-                    {day.items.length} activities
+                  <div className="flex items-center gap-2">
+                    <div className="bg-white/20 px-3 py-1.5 rounded-full text-sm">
+                      {day.items.length} activities
+                    </div>
+                    {discussion && countDayUnread(day, discussion.commentsByThread, discussion.readMarkers, viewerId) > 0 && (
+                      <div className="bg-sky-400 px-3 py-1.5 rounded-full text-sm font-semibold" title="Unread comments on this day's activities">
+                        💬 {countDayUnread(day, discussion.commentsByThread, discussion.readMarkers, viewerId)} new
+                      </div>
+                    )}
+                    {tripCurrency && getDayCost(day, itinerary) && (
+                      <div className="bg-white/20 px-3 py-1.5 rounded-full text-sm" title="Estimated per person, excluding lodging">
+                        💵 {formatCostRange(getDayCost(day, itinerary), tripCurrency)}
+                      </div>
+                    )}
+                    {onRegenerateDay && !isStreaming && (
+                      <button
+                        onClick={() => onRegenerateDay(dayIndex)}
+                        disabled={regeneratingDayIndex !== null}
+                        className="bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1.5 rounded-full text-sm font-semibold transition-colors"
+                        title="Regenerate only this day"
+                      >
+                        {regeneratingDayIndex === dayIndex ? '🔄 Regenerating...' : '🔄 Regenerate day'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -125,17 +271,39 @@ const ItineraryDisplay: React.FC<ItineraryDisplayProps> = ({ itinerary, sources
               {/* Activities Timeline - Expandable Cards */}
               <div className="p-4 md:p-6 space-y-3">
                 {day.items.map((item, itemIndex) => (
-                  <ExpandableItineraryCard
-                    key={itemIndex}
-                    item={item}
-                    dayTitle={day.title}
-                    dayNumber={dayIndex + 1}
-                    sources={sources}
-                  />
+                  <React.Fragment key={itemIndex}>
+                    {/* Travel from the previous item, flagged when the schedule doesn't leave time for it */}
+                    {itemIndex > 0 && travelChecks[dayIndex]?.[itemIndex - 1] && (
+                      <TravelLeg check={travelChecks[dayIndex][itemIndex - 1]} from={day.items[itemIndex - 1]} to={item} />
+                    )}
+                    <ExpandableItineraryCard
+                      item={item}
+                      dayTitle={day.title}
+                      dayNumber={dayIndex + 1}
+                      sources={sources}
+                      onSuggestAlternatives={onSuggestAlternatives && !isStreaming ? () => onSuggestAlternatives(dayIndex, itemIndex) : undefined}
+                      onSwapItem={onSwapItem ? (alternative) => onSwapItem(dayIndex, itemIndex, alternative) : undefined}
+                      voting={isStreaming ? undefined : voting}
+                      discussion={isStreaming ? undefined : discussion}
+                      onTogglePin={onTogglePin && !isStreaming ? (pinned) => onTogglePin(dayIndex, itemIndex, pinned) : undefined}
+                    />
+                  </React.Fragment>
                 ))}
               </div>
             </div>
           ))}
+
+          {/* Placeholder for days that are still being generated */}
+          {isStreaming && (
+            <div className="bg-white rounded-xl md:rounded-2xl shadow-lg border-2 border-dashed border-indigo-200 p-6 md:p-8 text-center animate-pulse">
+              <div className="text-4xl mb-3">🗺️</div>
+              <p className="text-gray-600 text-sm md:text-base">
+                {itinerary.dailyItinerary.length === 0
+                  ? 'Planning Day 1...'
+                  : `Planning Day ${itinerary.dailyItinerary.length + 1}...`}
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ItineraryItem } from '../types';
+import { TransitionCheck, MIN_VISIT_MINUTES } from '../utils/travelTime';
+
+interface TravelLegProps {
+  check: TransitionCheck;
+  from: ItineraryItem;
+  to: ItineraryItem;
+}
+
+const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+};
+
+/**
+ * Estimated travel time between two consecutive items, flagged when the schedule doesn't leave enough time for it
+ */
+const TravelLeg: React.FC<TravelLegProps> = ({ check, from, to }) => {
+  const { travel, gapMinutes, status } = check;
+  if (!travel || gapMinutes === null || status === 'unknown') return null;
+
+  const icon = travel.mode === 'walk' ? '🚶' : '🚇';
+  const estimate = `~${formatDuration(travel.minutes)} ${travel.mode === 'walk' ? 'walk' : 'by transit'}`;
+  const basis = travel.source === 'directions'
+    ? 'Travel time from Google Maps directions.'
+    : `Estimated offline from the ${travel.distanceKm.toFixed(1)} km straight-line distance.`;
+
+  if (status === 'ok') {
+    return (
+      <div className="flex items-center gap-2 pl-4 text-xs text-gray-500" title={basis}>
+        <span>{icon}</span>
+        <span>{estimate}</span>
+      </div>
+    );
+  }
+
+  const isInfeasible = status === 'infeasible';
+  const detail = isInfeasible
+    ? `but ${to.activity} starts ${formatDuration(gapMinutes)} after ${from.activity} (${from.time} → ${to.time})`
+    : `leaving ${formatDuration(gapMinutes - travel.minutes)} at ${from.activity}, less than the ${MIN_VISIT_MINUTES} min a visit usually needs`;
+
+  return (
+    <div
+      title={basis}
+      className={`flex items-start gap-2 p-2 rounded-lg border text-xs ${
+        isInfeasible ? 'border-red-300 bg-red-50 text-red-800' : 'border-amber-300 bg-amber-50 text-amber-800'
+      }`}
+    >
+      <span className="shrink-0">{isInfeasible ? '⛔' : '⚠️'}</span>
+      <span className="break-words min-w-0">
+        <span className="font-semibold">{icon} {estimate}</span>, {detail}.
+      </span>
+    </div>
+  );
+};
+
+export default TravelLeg;
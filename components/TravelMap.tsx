@@ -1,9 +1,11 @@
 import React, { useState, useMemo } from 'react';
-import { Itinerary, DailyPlan } from '../types';
+import { Itinerary, DailyPlan, Hotel } from '../types';
 import GoogleMapsWithMarkers from './GoogleMapsWithMarkers';
+import { getHotelsWithSelected } from '../utils/selectedHotel';
 
 interface TravelMapProps {
   itinerary: Itinerary;
+  selectedHotel?: Hotel | null; // The group's base hotel, pinned on the map
 }
 
 interface Location {
@@ -16,7 +18,7 @@ interface Location {
   coordinates?: { lat: number; lng: number };
 }
 
-const TravelMap: React.FC<TravelMapProps> = ({ itinerary }) => {
+const TravelMap: React.FC<TravelMapProps> = ({ itinerary, selectedHotel = null }) => {
   const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
 
   // Extract all locations with Google Maps links from the itinerary
@@ -24,7 +26,7 @@ const TravelMap: React.FC<TravelMapProps> = ({ itinerary }) => {
     const locs: Location[] = [];
 
     // Add hotels
-    itinerary.recommendedHotels.forEach((hotel) => {
+    getHotelsWithSelected(itinerary.recommendedHotels, selectedHotel).forEach((hotel) => {
       if (hotel.googleMapsLink) {
         // Extract coordinates and place ID from Google Maps URL
         const coordinates = extractCoordinatesFromUrl(hotel.googleMapsLink);
@@ -73,7 +75,7 @@ const TravelMap: React.FC<TravelMapProps> = ({ itinerary }) => {
     });
 
     return locs;
-  }, [itinerary]);
+  }, [itinerary, selectedHotel]);
 
   // Extract coordinates from Google Maps URL
   function extractCoordinatesFromUrl(url: string): { lat: number; lng: number } | null {
@@ -239,6 +241,12 @@ const TravelMap: React.FC<TravelMapProps> = ({ itinerary }) => {
           {/* Map Legend */}
           <div className="bg-white rounded-lg p-3 border border-gray-200 flex flex-wrap items-center gap-4 text-sm">
             <span className="font-semibold text-gray-700">Map Legend:</span>
+            {selectedHotel && (
+              <div className="flex items-center gap-2">
+                <div className="w-5 h-5 rounded-full bg-indigo-500 border-2 border-white"></div>
+                <span className="text-gray-600">Base hotel</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 rounded-full bg-red-500 border-2 border-white"></div>
               <span className="text-gray-600">Hotels</span>
@@ -256,7 +264,7 @@ const TravelMap: React.FC<TravelMapProps> = ({ itinerary }) => {
 
           {/* Interactive Map with Custom Markers */}
           <div className="bg-white rounded-lg overflow-hidden shadow-md">
-            <GoogleMapsWithMarkers itinerary={itinerary} />
+            <GoogleMapsWithMarkers itinerary={itinerary} selectedHotel={selectedHotel} />
           </div>
           
           {/* Link to open in Google Maps with all locations */}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { VoteValue } from '../types/plan';
+import { VoteTally, EMPTY_TALLY } from '../utils/votes';
+
+/**
+ * Live vote tallies for the whole itinerary, shared by every card
+ */
+export interface Voting {
+  tallies: Record<string, VoteTally>;
+  myVotes: Record<string, VoteValue>;
+  onVote?: (voteKey: string, value: VoteValue | null) => void; // omitted for viewers who can't vote
+}
+
+interface VoteButtonsProps {
+  voting: Voting;
+  voteKey: string;
+}
+
+const formatVoters = (label: string, voters: string[]) =>
+  voters.length > 0 ? `${label}: ${voters.join(', ')}` : `No ${label.toLowerCase()} yet`;
+
+/**
+ * Upvote/downvote buttons with the group's tallies; voting the same way again clears the vote
+ */
+const VoteButtons: React.FC<VoteButtonsProps> = ({ voting, voteKey }) => {
+  const tally = voting.tallies[voteKey] || EMPTY_TALLY;
+  const myVote = voting.myVotes[voteKey] ?? null;
+  const { onVote } = voting;
+
+  const button = (value: VoteValue, icon: string, count: number, voters: string[], label: string) => {
+    const selected = myVote === value;
+    const colors = selected
+      ? value === 1 ? 'bg-green-500 text-white border-green-500' : 'bg-red-500 text-white border-red-500'
+      : 'bg-white text-gray-700 border-gray-300';
+
+    return (
+      <button
+        type="button"
+        onClick={(event) => {
+          // Cards open when clicked; voting shouldn't
+          event.stopPropagation();
+          onVote?.(voteKey, selected ? null : value);
+        }}
+        disabled={!onVote}
+        title={formatVoters(label, voters)}
+        aria-pressed={selected}
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-semibold transition-colors ${colors} ${
+          onVote ? 'hover:shadow-sm' : 'cursor-default'
+        }`}
+      >
+        <span>{icon}</span>
+        <span>{count}</span>
+      </button>
+    );
+  };
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      {button(1, '👍', tally.up, tally.upVoters, 'Upvotes')}
+      {button(-1, '👎', tally.down, tally.downVoters, 'Downvotes')}
+    </span>
+  );
+};
+
+export default VoteButtons;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { TripCostSummary, BudgetComparison, BudgetStatus, compareToBudget, formatCostRange } from '../../utils/costs';
+import { Itinerary } from '../../types';
+import { MemberPublic } from '../../types/member';
+
+interface BudgetReportProps {
+  summary: TripCostSummary;
+  itinerary: Itinerary;
+  members: MemberPublic[];
+}
+
+const STATUS_STYLES: Record<BudgetStatus, { label: string; className: string }> = {
+  over: { label: '⛔ Over budget', className: 'border-red-300 bg-red-50 text-red-800' },
+  may_exceed: { label: '⚠️ May exceed', className: 'border-amber-300 bg-amber-50 text-amber-800' },
+  within: { label: '✅ Within budget', className: 'border-green-300 bg-green-50 text-green-800' },
+  unknown: { label: '❔ Can\'t compare', className: 'border-gray-200 bg-gray-50 text-gray-700' },
+};
+
+const MemberBudgetRow: React.FC<{ member: MemberPublic; comparison: BudgetComparison }> = ({ member, comparison }) => {
+  const style = STATUS_STYLES[comparison.status];
+  const { budget, estimate } = comparison;
+  const assumptions = [
+    budget?.currencyAssumed && `assumed ${budget.currency}`,
+    budget?.periodAssumed && 'assumed per day',
+  ].filter(Boolean);
+
+  return (
+    <li className={`p-2 rounded-lg border text-xs md:text-sm ${style.className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-semibold break-words min-w-0">{member.name}</span>
+        <span className="font-semibold whitespace-nowrap">{style.label}</span>
+      </div>
+      <div className="mt-1 text-[11px] opacity-80 break-words">
+        💰 {member.preferences.budget || 'No budget given'}
+        {assumptions.length > 0 && ` (${assumptions.join(', ')})`}
+        {budget && estimate && (
+          <> · plan is about {formatCostRange(estimate, budget.currency)} {budget.period === 'day' ? 'per day' : 'for the trip'}</>
+        )}
+        {comparison.reason && <> · {comparison.reason}</>}
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Per-person cost estimate for the trip and how it compares with each member's stated budget
+ */
+const BudgetReport: React.FC<BudgetReportProps> = ({ summary, itinerary, members }) => {
+  const comparisons = members.map((member) => ({
+    member,
+    comparison: compareToBudget(summary, member.preferences.budget, itinerary),
+  }));
+  const overBudgetCount = comparisons.filter(({ comparison }) => comparison.status === 'over').length;
+
+  return (
+    <div className={`bg-white p-4 md:p-6 rounded-xl md:rounded-2xl shadow-xl border-2 ${overBudgetCount > 0 ? 'border-red-100' : 'border-emerald-100'}`}>
+      <div className="flex items-center gap-2 md:gap-3 mb-1">
+        <span className="text-2xl md:text-3xl">💸</span>
+        <h2 className="text-lg md:text-xl font-bold text-gray-800">Estimated Costs</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Per person, from AI estimates for {summary.estimatedItemCount} of {summary.itemCount} activities
+        {summary.lodging ? ` and ${summary.nights} ${summary.nights === 1 ? 'night' : 'nights'} at ${summary.lodgingHotel}` : ''}.
+        Prices change, so treat these as a rough guide.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 md:gap-3 mb-4">
+        <div className="bg-emerald-50 p-2 md:p-3 rounded-lg border border-emerald-200">
+          <div className="text-[11px] text-emerald-700 font-semibold">Trip total</div>
+          <div className="text-sm md:text-base font-bold text-gray-800">{formatCostRange(summary.total, summary.currency)}</div>
+        </div>
+        <div className="bg-emerald-50 p-2 md:p-3 rounded-lg border border-emerald-200">
+          <div className="text-[11px] text-emerald-700 font-semibold">Per day</div>
+          <div className="text-sm md:text-base font-bold text-gray-800">{formatCostRange(summary.perDay, summary.currency)}</div>
+        </div>
+        <div className="bg-gray-50 p-2 md:p-3 rounded-lg border border-gray-200">
+          <div className="text-[11px] text-gray-600 font-semibold">Activities & food</div>
+          <div className="text-sm md:text-base font-bold text-gray-800">{formatCostRange(summary.activities, summary.currency)}</div>
+        </div>
+        <div className="bg-gray-50 p-2 md:p-3 rounded-lg border border-gray-200">
+          <div className="text-[11px] text-gray-600 font-semibold">Lodging</div>
+          <div className="text-sm md:text-base font-bold text-gray-800">
+            {summary.lodging ? formatCostRange(summary.lodging, summary.currency) : 'Not estimated'}
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="text-xs md:text-sm font-bold text-gray-800 mb-1.5">By day (excluding lodging)</div>
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+          {itinerary.dailyItinerary.map((day, dayIndex) => (
+            <li key={dayIndex} className="flex justify-between gap-2 text-xs md:text-sm bg-gray-50 px-2 py-1 rounded-lg">
+              <span className="break-words min-w-0 text-gray-700">{day.day}</span>
+              <span className="font-semibold text-gray-800 whitespace-nowrap">
+                {summary.dayTotals[dayIndex] ? formatCostRange(summary.dayTotals[dayIndex], summary.currency) : '—'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {members.length > 0 && (
+        <div>
+          <div className="text-xs md:text-sm font-bold text-gray-800 mb-1.5">
+            Member budgets
+            {overBudgetCount > 0 && (
+              <span className="ml-2 text-red-600">
+                {overBudgetCount} {overBudgetCount === 1 ? 'member is' : 'members are'} over budget
+              </span>
+            )}
+          </div>
+          <ul className="space-y-1.5">
+            {comparisons.map(({ member, comparison }) => (
+              <MemberBudgetRow key={member.id} member={member} comparison={comparison} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetReport;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Itinerary } from '../../types';
+import { ConsensusEntry, VoteTally, getConsensus } from '../../utils/votes';
+import { PlaceKind } from '../../utils/placeKey';
+
+interface ConsensusReportProps {
+  itinerary: Itinerary;
+  tallies: Record<string, VoteTally>;
+  voterCount: number;
+  memberCount: number;
+}
+
+const KIND_LABELS: Record<PlaceKind, string> = {
+  item: 'Activity',
+  hotel: 'Hotel',
+  gem: 'Hidden gem',
+};
+
+const describePlace = (entry: ConsensusEntry, itinerary: Itinerary) => {
+  const day = entry.dayIndex !== null ? itinerary.dailyItinerary[entry.dayIndex]?.day : null;
+  return day ? `${KIND_LABELS[entry.kind]} · ${day}` : KIND_LABELS[entry.kind];
+};
+
+/**
+ * Creator's view of the group's votes: the most-disliked places, as candidates for swapping, and the favorites
+ */
+const ConsensusReport: React.FC<ConsensusReportProps> = ({ itinerary, tallies, voterCount, memberCount }) => {
+  const { disliked, liked } = getConsensus(itinerary, tallies);
+
+  return (
+    <div className="bg-white p-4 md:p-6 rounded-xl md:rounded-2xl shadow-xl border-2 border-sky-100">
+      <div className="flex items-center gap-2 md:gap-3 mb-1">
+        <span className="text-2xl md:text-3xl">🗳️</span>
+        <h2 className="text-lg md:text-xl font-bold text-gray-800">Group Consensus</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {voterCount} of {memberCount} {memberCount === 1 ? 'member has' : 'members have'} voted.
+        {disliked.length > 0 && ' Open a disliked activity and use "Suggest alternatives" to swap it, or regenerate its day.'}
+      </p>
+
+      {disliked.length === 0 && liked.length === 0 ? (
+        <p className="text-sm text-gray-600">No votes yet. Members can vote on activities, hidden gems and hotels from the itinerary.</p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="text-xs md:text-sm font-bold text-gray-800 mb-1.5">Candidates for swapping</div>
+            {disliked.length === 0 ? (
+              <p className="text-xs md:text-sm text-green-700">✅ Nothing has more downvotes than upvotes.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {disliked.map((entry) => (
+                  <li key={entry.voteKey} className="p-2 rounded-lg border border-red-200 bg-red-50 text-xs md:text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-semibold text-gray-800 break-words min-w-0">{entry.name}</span>
+                      <span className="whitespace-nowrap text-red-700 font-semibold">👍 {entry.tally.up} · 👎 {entry.tally.down}</span>
+                    </div>
+                    <div className="mt-1 text-[11px] text-gray-600 break-words">
+                      {describePlace(entry, itinerary)} · Disliked by {entry.tally.downVoters.join(', ')}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {liked.length > 0 && (
+            <div>
+              <div className="text-xs md:text-sm font-bold text-gray-800 mb-1.5">Group favorites</div>
+              <ul className="space-y-1.5">
+                {liked.slice(0, 5).map((entry) => (
+                  <li key={entry.voteKey} className="flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg border border-green-200 bg-green-50 text-xs md:text-sm">
+                    <span className="break-words min-w-0">
+                      <span className="font-semibold text-gray-800">{entry.name}</span>
+                      <span className="text-[11px] text-gray-600"> · {describePlace(entry, itinerary)}</span>
+                    </span>
+                    <span className="whitespace-nowrap text-green-700 font-semibold">👍 {entry.tally.up} · 👎 {entry.tally.down}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsensusReport;
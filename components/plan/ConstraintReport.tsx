@@ -0,0 +1,103 @@
+import React from 'react';
+import { ConstraintReport as ConstraintReportData, ConstraintViolation } from '../../utils/checkConstraints';
+import { DailyPlan } from '../../types';
+
+interface ConstraintReportProps {
+  report: ConstraintReportData;
+  days: DailyPlan[];
+  onFixDay?: (dayIndex: number, violations: ConstraintViolation[]) => void; // omitted for read-only viewers
+  fixingDayIndex?: number | null;
+  disabled?: boolean;
+}
+
+const ViolationRow: React.FC<{ violation: ConstraintViolation }> = ({ violation }) => (
+  <li
+    className={`p-2 rounded-lg border text-xs md:text-sm ${
+      violation.hard ? 'border-red-300 bg-red-50 text-red-800' : 'border-amber-300 bg-amber-50 text-amber-800'
+    }`}
+  >
+    <div className="flex items-start gap-2">
+      <span className="shrink-0">{violation.hard ? '⛔' : '⚠️'}</span>
+      <span className="break-words min-w-0">{violation.message}</span>
+    </div>
+    <div className="mt-1 text-[11px] opacity-80 break-words">
+      {violation.hard ? 'Hard rule' : 'Soft preference'} · {violation.constraintText}
+    </div>
+  </li>
+);
+
+const ConstraintReport: React.FC<ConstraintReportProps> = ({ report, days, onFixDay, fixingDayIndex = null, disabled = false }) => {
+  if (report.checkedConstraintCount === 0) {
+    return null;
+  }
+
+  if (report.violations.length === 0) {
+    return (
+      <div className="bg-green-50 border-2 border-green-200 text-green-800 p-3 md:p-4 rounded-xl text-sm">
+        ✅ The itinerary follows all {report.checkedConstraintCount} group constraints.
+      </div>
+    );
+  }
+
+  const missingMustDos = report.violations.filter((violation) => violation.dayIndex === null);
+  const dayViolations = days
+    .map((day, dayIndex) => ({
+      day,
+      dayIndex,
+      violations: report.violations.filter((violation) => violation.dayIndex === dayIndex),
+    }))
+    .filter((entry) => entry.violations.length > 0);
+
+  return (
+    <div className="bg-white p-4 md:p-6 rounded-xl md:rounded-2xl shadow-xl border-2 border-red-100">
+      <div className="flex items-center gap-2 md:gap-3 mb-1">
+        <span className="text-2xl md:text-3xl">🧐</span>
+        <h2 className="text-lg md:text-xl font-bold text-gray-800">Constraint Check</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {report.violations.length} possible {report.violations.length === 1 ? 'issue' : 'issues'}
+        {report.hardViolationCount > 0 && ` (${report.hardViolationCount} breaking hard rules)`}
+        {' '}across {report.checkedConstraintCount} constraints. Matching is keyword based, so double-check before fixing.
+      </p>
+
+      <div className="space-y-4">
+        {dayViolations.map(({ day, dayIndex, violations }) => (
+          <div key={dayIndex}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1.5">
+              <div className="text-xs md:text-sm font-bold text-gray-800 break-words">
+                {day.day}: {day.title}
+              </div>
+              {onFixDay && (
+                <button
+                  onClick={() => onFixDay(dayIndex, violations)}
+                  disabled={disabled || fixingDayIndex !== null}
+                  className="text-xs text-white bg-red-500 hover:bg-red-600 disabled:bg-gray-400 disabled:cursor-not-allowed px-2 py-1 rounded-lg transition-colors"
+                >
+                  {fixingDayIndex === dayIndex ? 'Fixing...' : '🛠️ Fix this day'}
+                </button>
+              )}
+            </div>
+            <ul className="space-y-1.5">
+              {violations.map((violation, index) => (
+                <ViolationRow key={`${violation.constraintId}-${index}`} violation={violation} />
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        {missingMustDos.length > 0 && (
+          <div>
+            <div className="text-xs md:text-sm font-bold text-gray-800 mb-1.5">Missing must-dos</div>
+            <ul className="space-y-1.5">
+              {missingMustDos.map((violation) => (
+                <ViolationRow key={violation.constraintId} violation={violation} />
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConstraintReport;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { PlanConstraint, ConstraintKind } from '../../types/plan';
+import { createConstraint, hasConstraint } from '../../utils/constraints';
+
+interface ConstraintsEditorProps {
+  constraints: PlanConstraint[];
+  canEdit: boolean;
+  onChange: (constraints: PlanConstraint[]) => Promise<void>;
+}
+
+const KIND_SECTIONS: { kind: ConstraintKind; title: string; icon: string; empty: string; chip: string }[] = [
+  { kind: 'must_do', title: 'Must-Do', icon: '✅', empty: 'No must-dos yet', chip: 'border-green-300 bg-green-50' },
+  { kind: 'veto', title: 'Veto', icon: '🚫', empty: 'No vetoes yet', chip: 'border-red-300 bg-red-50' },
+];
+
+const ConstraintsEditor: React.FC<ConstraintsEditorProps> = ({ constraints, canEdit, onChange }) => {
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<ConstraintKind>('must_do');
+  const [hard, setHard] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (updated: PlanConstraint[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onChange(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update constraints');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    if (hasConstraint(constraints, kind, text)) {
+      setError('That constraint is already on the list');
+      return;
+    }
+    await save([...constraints, createConstraint(text, kind, hard)]);
+    setText('');
+  };
+
+  const handleToggleHard = (id: string) =>
+    save(constraints.map((constraint) => (constraint.id === id ? { ...constraint, hard: !constraint.hard } : constraint)));
+
+  const handleRemove = (id: string) =>
+    save(constraints.filter((constraint) => constraint.id !== id));
+
+  return (
+    <div className="bg-gradient-to-r from-amber-50 to-yellow-50 p-3 md:p-4 rounded-xl border-l-4 border-amber-400">
+      <h3 className="text-sm md:text-base font-semibold text-amber-700 flex items-center gap-1.5 mb-2">
+        <span>📌</span> Constraints
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {KIND_SECTIONS.map((section) => {
+          const sectionConstraints = constraints.filter((constraint) => constraint.kind === section.kind);
+          return (
+            <div key={section.kind}>
+              <div className="text-xs font-semibold text-gray-700 mb-1.5">
+                {section.icon} {section.title}
+              </div>
+              {sectionConstraints.length === 0 ? (
+                <p className="text-xs text-gray-500">{section.empty}</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {sectionConstraints.map((constraint) => (
+                    <li
+                      key={constraint.id}
+                      className={`flex items-start justify-between gap-2 p-2 rounded-lg border text-xs md:text-sm text-gray-800 ${section.chip}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="break-words">{constraint.text}</div>
+                        <div className="text-[11px] text-gray-500 mt-0.5">by {constraint.addedBy}</div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <button
+                          onClick={() => handleToggleHard(constraint.id)}
+                          disabled={!canEdit || saving}
+                          title={canEdit ? 'Toggle between a hard rule and a soft preference' : undefined}
+                          className={`text-[11px] font-semibold px-1.5 py-0.5 rounded-full transition-colors disabled:cursor-default ${
+                            constraint.hard ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 border border-gray-300'
+                          }`}
+                        >
+                          {constraint.hard ? 'Hard' : 'Soft'}
+                        </button>
+                        {/* Member constraints come from their preferences, so only creator-added ones can be removed here */}
+                        {canEdit && constraint.memberId === null && (
+                          <button
+                            onClick={() => handleRemove(constraint.id)}
+                            disabled={saving}
+                            className="text-[11px] text-gray-500 hover:text-red-600 px-1"
+                            title="Remove"
+                          >
+                            ✖️
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="mt-3 flex flex-col sm:flex-row gap-2">
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="e.g. Visit teamLab, no early mornings..."
+            className="flex-1 min-w-0 p-2 border-2 border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400 text-xs md:text-sm text-gray-700"
+          />
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ConstraintKind)}
+            className="p-2 border-2 border-amber-200 rounded-lg text-xs md:text-sm text-gray-700 bg-white"
+          >
+            <option value="must_do">Must-do</option>
+            <option value="veto">Veto</option>
+          </select>
+          <label className="flex items-center gap-1.5 text-xs md:text-sm text-gray-700">
+            <input type="checkbox" checked={hard} onChange={(e) => setHard(e.target.checked)} />
+            Hard rule
+          </label>
+          <button
+            type="submit"
+            disabled={saving || !text.trim()}
+            className="text-xs md:text-sm text-white bg-amber-500 hover:bg-amber-600 disabled:bg-gray-400 px-3 py-2 rounded-lg transition-colors"
+          >
+            ➕ Add
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ConstraintsEditor;
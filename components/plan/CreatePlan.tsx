@@ -3,6 +3,8 @@ import { createPlan } from '../../services/firebase/plans';
 import { CreatePlanData } from '../../types/plan';
 import { useAuth } from '../../contexts/AuthContext';
 import LoadingSpinner from '../LoadingSpinner';
+import { getTripDayCount, formatTripDates, isTripTooLong, getLatestEndDate, MAX_TRIP_DAYS } from '../../utils/tripDates';
+import { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } from '../../utils/languages';
 
 interface CreatePlanProps {
   onPlanCreated: (planId: string) => void;
@@ -11,7 +13,9 @@ interface CreatePlanProps {
 const CreatePlan: React.FC<CreatePlanProps> = ({ onPlanCreated }) => {
   const { currentUser } = useAuth();
   const [destination, setDestination] = useState('');
-  const [tripDates, setTripDates] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
   const [groupVibe, setGroupVibe] = useState('');
   const [mustDoList, setMustDoList] = useState('');
   const [vetoList, setVetoList] = useState('');
@@ -27,12 +31,25 @@ const CreatePlan: React.FC<CreatePlanProps> = ({ onPlanCreated }) => {
       return;
     }
 
+    if (tripDayCount === null) {
+      setError('The end date must be on or after the start date');
+      return;
+    }
+
+    if (isTripTooLong(startDate, endDate)) {
+      setError(`Trips can be at most ${MAX_TRIP_DAYS} days long`);
+      return;
+    }
+
     setLoading(true);
 
     try {
       const planData: CreatePlanData = {
         destination,
-        tripDates,
+        tripDates: formatTripDates(startDate, endDate),
+        startDate,
+        endDate,
+        language,
         groupVibe,
         mustDoList,
         vetoList,
@@ -47,7 +64,8 @@ const CreatePlan: React.FC<CreatePlanProps> = ({ onPlanCreated }) => {
     }
   };
 
-  const isFormIncomplete = !destination || !tripDates || !groupVibe;
+  const tripDayCount = getTripDayCount(startDate, endDate);
+  const isFormIncomplete = !destination || !startDate || !endDate || !groupVibe;
 
   return (
     <div className="bg-slate-800 p-6 md:p-8 rounded-xl shadow-2xl max-w-2xl mx-auto">
@@ -79,17 +97,53 @@ const CreatePlan: React.FC<CreatePlanProps> = ({ onPlanCreated }) => {
             <label className="block text-sm font-medium text-slate-300 mb-1">
               Trip Dates <span className="text-red-400">*</span>
             </label>
-            <input
-              type="text"
-              value={tripDates}
-              onChange={(e) => setTripDates(e.target.value)}
-              required
-              className="w-full bg-slate-700 border border-slate-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
-              placeholder="e.g., July 10-17, 2024"
-            />
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (!endDate || e.target.value > endDate) setEndDate(e.target.value);
+                }}
+                required
+                aria-label="Start date"
+                className="w-full min-w-0 bg-slate-700 border border-slate-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              <input
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                max={getLatestEndDate(startDate) || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                required
+                aria-label="End date"
+                className="w-full min-w-0 bg-slate-700 border border-slate-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+            {tripDayCount !== null && (
+              <p className="mt-1 text-xs text-slate-400">{formatTripDates(startDate, endDate)}</p>
+            )}
           </div>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">
+            Itinerary Language
+          </label>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className="w-full bg-slate-700 border border-slate-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {SUPPORTED_LANGUAGES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.nativeName}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">Descriptions and the packing list are written in this language. Place names stay as they appear on Google Maps.</p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-1">
             Group Vibe <span className="text-red-400">*</span>
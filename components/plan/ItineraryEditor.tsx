@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { Itinerary, ItineraryItem } from '../../types';
+import { ItemPosition, moveItem, updateItem, addItem, removeItem, getDroppedPlaceNames } from '../../utils/editItinerary';
+
+interface ItineraryEditorProps {
+  itinerary: Itinerary;
+  onSave: (itinerary: Itinerary) => Promise<void>;
+  onCancel: () => void;
+}
+
+const BLANK_ITEM: ItineraryItem = {
+  time: '',
+  activity: '',
+  location: '',
+  description: '',
+  googleMapsLink: null,
+};
+
+const isSamePosition = (a: ItemPosition | null, b: ItemPosition) =>
+  a !== null && a.dayIndex === b.dayIndex && a.itemIndex === b.itemIndex;
+
+/**
+ * Problems that would stop the itinerary from being saved, in words the creator can act on
+ */
+function getEditProblems(itinerary: Itinerary): string[] {
+  return itinerary.dailyItinerary.flatMap((day) => {
+    if (day.items.length === 0) {
+      return [`${day.day} needs at least one item.`];
+    }
+    return day.items
+      .map((item, itemIndex) => (!item.time.trim() || !item.activity.trim()
+        ? `${day.day}, item ${itemIndex + 1} needs a time and a name.`
+        : null))
+      .filter((problem): problem is string => problem !== null);
+  });
+}
+
+/**
+ * Creator-only editor for the generated itinerary: drag items within and between days,
+ * edit them, add custom items and delete items. Changes are kept locally until saved.
+ */
+const ItineraryEditor: React.FC<ItineraryEditorProps> = ({ itinerary, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Itinerary>(itinerary);
+  // Rows only become draggable from their handle, so text in the inputs can still be selected
+  const [armedPosition, setArmedPosition] = useState<ItemPosition | null>(null);
+  const [dragging, setDragging] = useState<ItemPosition | null>(null);
+  const [dropTarget, setDropTarget] = useState<ItemPosition | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problems = getEditProblems(draft);
+  const hasChanges = draft !== itinerary;
+  const droppedPlaceNames = hasChanges ? getDroppedPlaceNames(itinerary, draft) : [];
+
+  const clearDrag = () => {
+    setArmedPosition(null);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (event: React.DragEvent, to: ItemPosition) => {
+    event.preventDefault();
+    if (dragging) {
+      setDraft((current) => moveItem(current, dragging, to));
+    }
+    clearDrag();
+  };
+
+  const dropZoneProps = (to: ItemPosition) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!dragging) return;
+      event.preventDefault();
+      event.stopPropagation();
+      if (!isSamePosition(dropTarget, to)) setDropTarget(to);
+    },
+    onDrop: (event: React.DragEvent) => {
+      event.stopPropagation();
+      handleDrop(event, to);
+    },
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save your changes');
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (hasChanges && !confirm('Discard your changes to the itinerary?')) return;
+    onCancel();
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="bg-blue-50 border-2 border-blue-200 text-blue-800 p-3 md:p-4 rounded-xl text-xs md:text-sm">
+        ✏️ Drag items by their handle to reorder them or move them to another day. Nothing is saved until you press Save.
+      </div>
+
+      {draft.dailyItinerary.map((day, dayIndex) => (
+        <div
+          key={dayIndex}
+          className="bg-white rounded-xl border-2 border-indigo-100 overflow-hidden"
+          {...dropZoneProps({ dayIndex, itemIndex: day.items.length })}
+        >
+          <div className="bg-gradient-to-r from-indigo-500 to-purple-500 px-4 py-2 text-white font-bold text-sm md:text-base break-words">
+            {day.day}: {day.title}
+          </div>
+
+          <div className="p-3 md:p-4 space-y-2">
+            {day.items.map((item, itemIndex) => {
+              const position = { dayIndex, itemIndex };
+              const isDropTarget = isSamePosition(dropTarget, position) && !isSamePosition(dragging, position);
+
+              return (
+                <div
+                  key={itemIndex}
+                  draggable={isSamePosition(armedPosition, position)}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = 'move';
+                    event.dataTransfer.setData('text/plain', item.activity); // Firefox won't start a drag without data
+                    setDragging(position);
+                  }}
+                  onDragEnd={clearDrag}
+                  {...dropZoneProps(position)}
+                  className={`flex gap-2 p-2 md:p-3 rounded-lg border-2 transition-colors ${
+                    isSamePosition(dragging, position) ? 'opacity-40 border-dashed border-gray-300' : 'border-gray-200 bg-gray-50'
+                  } ${isDropTarget ? 'border-t-indigo-500 border-t-4' : ''}`}
+                >
+                  <button
+                    type="button"
+                    onMouseDown={() => setArmedPosition(position)}
+                    onMouseUp={() => setArmedPosition(null)}
+                    className="shrink-0 cursor-grab active:cursor-grabbing text-gray-400 hover:text-gray-600 px-1 select-none"
+                    title="Drag to move"
+                    aria-label="Drag to move"
+                  >
+                    ⠿
+                  </button>
+
+                  <div className="flex-1 min-w-0 space-y-1.5">
+                    <div className="flex flex-wrap gap-1.5">
+                      {item.pinned && (
+                        <span className="self-center text-sm" title="Pinned: regenerations keep it on its day and at its time">📌</span>
+                      )}
+                      <input
+                        value={item.time}
+                        onChange={(event) => setDraft((current) => updateItem(current, position, { time: event.target.value }))}
+                        placeholder="10:30 AM"
+                        className={`w-24 px-2 py-1 text-xs md:text-sm border rounded-lg ${item.time.trim() ? 'border-gray-300' : 'border-red-400'}`}
+                      />
+                      <input
+                        value={item.activity}
+                        onChange={(event) => setDraft((current) => updateItem(current, position, { activity: event.target.value }))}
+                        placeholder="Activity or place"
+                        className={`flex-1 min-w-[140px] px-2 py-1 text-xs md:text-sm font-semibold border rounded-lg ${item.activity.trim() ? 'border-gray-300' : 'border-red-400'}`}
+                      />
+                      <input
+                        value={item.location}
+                        onChange={(event) => setDraft((current) => updateItem(current, position, { location: event.target.value }))}
+                        placeholder="Neighborhood"
+                        className="w-full sm:w-36 px-2 py-1 text-xs md:text-sm border border-gray-300 rounded-lg"
+                      />
+                    </div>
+                    <textarea
+                      value={item.description}
+                      onChange={(event) => setDraft((current) => updateItem(current, position, { description: event.target.value }))}
+                      placeholder="What's the plan?"
+                      rows={2}
+                      className="w-full px-2 py-1 text-xs md:text-sm border border-gray-300 rounded-lg resize-y"
+                    />
+                  </div>
+
+                  <div className="shrink-0 flex flex-col gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setDraft((current) => moveItem(current, position, { dayIndex, itemIndex: itemIndex - 1 }))}
+                      disabled={itemIndex === 0}
+                      className="text-xs px-1.5 py-0.5 rounded bg-white border border-gray-300 hover:bg-gray-100 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDraft((current) => moveItem(current, position, { dayIndex, itemIndex: itemIndex + 2 }))}
+                      disabled={itemIndex === day.items.length - 1}
+                      className="text-xs px-1.5 py-0.5 rounded bg-white border border-gray-300 hover:bg-gray-100 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    {draft.dailyItinerary.length > 1 && (
+                      <select
+                        value={dayIndex}
+                        onChange={(event) => {
+                          const targetDayIndex = Number(event.target.value);
+                          const targetLength = draft.dailyItinerary[targetDayIndex].items.length;
+                          setDraft((current) => moveItem(current, position, { dayIndex: targetDayIndex, itemIndex: targetLength }));
+                        }}
+                        className="text-xs w-14 px-0.5 py-0.5 rounded bg-white border border-gray-300"
+                        title="Move to another day"
+                      >
+                        {draft.dailyItinerary.map((targetDay, targetDayIndex) => (
+                          <option key={targetDayIndex} value={targetDayIndex}>{targetDay.day}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setDraft((current) => removeItem(current, position))}
+                      className="text-xs px-1.5 py-0.5 rounded bg-white border border-red-200 text-red-600 hover:bg-red-50"
+                      title="Delete item"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Dropping below the last item moves it to the end of the day */}
+            <div
+              className={`text-center text-xs rounded-lg border-2 border-dashed py-2 transition-colors ${
+                isSamePosition(dropTarget, { dayIndex, itemIndex: day.items.length })
+                  ? 'border-indigo-400 bg-indigo-50 text-indigo-700'
+                  : 'border-gray-200 text-gray-400'
+              } ${dragging ? '' : 'hidden'}`}
+            >
+              Drop here to move to the end of {day.day}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setDraft((current) => addItem(current, dayIndex, { ...BLANK_ITEM }))}
+              className="w-full text-xs md:text-sm font-semibold text-indigo-600 hover:text-indigo-700 bg-indigo-50 hover:bg-indigo-100 py-2 rounded-lg transition-colors"
+            >
+              ➕ Add item to {day.day}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {droppedPlaceNames.length > 0 && (
+        <div className="p-3 bg-amber-50 border-2 border-amber-200 text-amber-800 rounded-xl text-xs md:text-sm">
+          ⚠️ Votes and comments are tied to a place's name, so after saving they won't follow renamed or deleted items:{' '}
+          {droppedPlaceNames.join(', ')}
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="p-3 bg-amber-50 border-2 border-amber-200 text-amber-800 rounded-xl text-xs md:text-sm space-y-1">
+          {problems.map((problem) => (
+            <li key={problem}>⚠️ {problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border-2 border-red-200 text-red-700 rounded-xl text-xs md:text-sm whitespace-pre-line">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={handleCancel}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || !hasChanges || problems.length > 0}
+          className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors"
+        >
+          {saving ? 'Saving...' : '💾 Save changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ItineraryEditor;
@@ -1,26 +1,87 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { getPlan, subscribeToPlan, updatePlan } from '../../services/firebase/plans';
 import { getPlanMembers, subscribeToPlanMembers } from '../../services/firebase/members';
-import { generateItinerary } from '../../services/geminiService';
-import { matchSourcesToItinerary } from '../../utils/matchSources';
-import { saveItineraryToPlan } from '../../services/firebase/plans';
-import { Plan } from '../../types/plan';
+import { castVote, subscribeToPlanVotes } from '../../services/firebase/votes';
+import { addComment, subscribeToPlanComments } from '../../services/firebase/comments';
+import {
+  generateItineraryStream,
+  parseItineraryWithRepair,
+  generateDay,
+  parseDayWithRepair,
+  generateItemAlternatives,
+} from '../../services/geminiService';
+import { matchSourcesToItinerary, matchSourcesToDay, matchSourcesToItem } from '../../utils/matchSources';
+import { checkItineraryConstraints, ConstraintViolation } from '../../utils/checkConstraints';
+import { getTripDays, assignCalendarDates, isTripTooLong, MAX_TRIP_DAYS } from '../../utils/tripDates';
+import { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE, getLanguage } from '../../utils/languages';
+import { isAbortError, throwIfAborted } from '../../utils/abort';
+import { getTripCost, compareToBudget } from '../../utils/costs';
+import { tallyVotes, getMemberVotes } from '../../utils/votes';
+import { groupCommentsByThread, loadReadMarkers, saveReadMarkers, ReadMarkers } from '../../utils/comments';
+import { getPinnedItems, applyPinnedItems, PinnedItemChange } from '../../utils/pinnedItems';
+import { saveItineraryToPlan, replaceDayInPlan, replaceItemInPlan, saveItineraryEdits, selectPlanHotel, setItemPinned } from '../../services/firebase/plans';
+import {
+  claimGenerationLock,
+  releaseGenerationLock,
+  isGenerationActive,
+  describeGeneration,
+} from '../../services/firebase/generationLock';
+import { useAuth } from '../../contexts/AuthContext';
+import { Plan, GenerationInputs, PlanConstraint, MemberVotes, VoteValue, PlanComment, CommentAuthor } from '../../types/plan';
 import { MemberPublic } from '../../types/member';
-import { Itinerary, GroundingChunk } from '../../types';
+import { Itinerary, ItineraryItem, GroundingChunk, Hotel } from '../../types';
 import ItineraryDisplay from '../ItineraryDisplay';
 import LoadingSpinner from '../LoadingSpinner';
 import TravelDoodles from '../TravelDoodles';
+import VersionHistory from './VersionHistory';
+import ConstraintsEditor from './ConstraintsEditor';
+import ConstraintReport from './ConstraintReport';
+import BudgetReport from './BudgetReport';
+import ItineraryEditor from './ItineraryEditor';
+import ConsensusReport from './ConsensusReport';
+import { Voting } from '../VoteButtons';
+import { Discussion } from '../CommentThread';
 
 interface PlanDashboardProps {
   planId: string;
   isCreator: boolean;
+  memberId?: string | null; // The member this browser joined as, if any; needed to vote
 }
 
-const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
+// The exact inputs sent to the model, recorded on every itinerary version
+// A day regeneration (dayIndex set) only sends that day's pinned items
+const getGenerationInputs = (plan: Plan, dayIndex: number | null = null): GenerationInputs => ({
+  destination: plan.destination,
+  tripDates: plan.tripDates,
+  startDate: plan.startDate || null,
+  endDate: plan.endDate || null,
+  language: plan.language || DEFAULT_LANGUAGE,
+  groupVibe: plan.groupVibe,
+  mustDoList: plan.mustDoList,
+  vetoList: plan.vetoList,
+  constraints: plan.constraints || [],
+  baseHotel: plan.selectedHotel || null,
+  pinnedItems: getPinnedItems(plan.itinerary).filter((pinnedItem) => dayIndex === null || pinnedItem.dayIndex === dayIndex),
+});
+
+const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator, memberId = null }) => {
+  const { currentUser, userProfile } = useAuth();
   const [plan, setPlan] = useState<Plan | null>(null);
   const [members, setMembers] = useState<MemberPublic[]>([]);
+  const [memberVotes, setMemberVotes] = useState<MemberVotes[]>([]);
+  const [comments, setComments] = useState<PlanComment[]>([]);
+  const [readMarkers, setReadMarkers] = useState<ReadMarkers>({});
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [streamingItinerary, setStreamingItinerary] = useState<Itinerary | null>(null);
+  // Set while a full itinerary generation is running, so it can be cancelled
+  const generationAbortController = useRef<AbortController | null>(null);
+  const [regeneratingDayIndex, setRegeneratingDayIndex] = useState<number | null>(null);
+  const [editingItinerary, setEditingItinerary] = useState(false);
+  // What the last regeneration did to pinned items: put back ones the model dropped, or moved
+  const [pinnedItemChanges, setPinnedItemChanges] = useState<PinnedItemChange[]>([]);
+  // Grounding sources, model and prompt template of the last alternatives request per item, saved when one is swapped in
+  const alternativeResults = useRef<Record<string, { sources: GroundingChunk[]; model: string; promptTemplate: string }>>({});
   const [error, setError] = useState<string | null>(null);
   
   // Edit states for group preferences
@@ -45,12 +106,22 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
       setMembers(membersList);
     });
 
+    // Subscribe to votes, so every dashboard shows live tallies
+    const unsubscribeVotes = subscribeToPlanVotes(planId, setMemberVotes);
+
+    // Subscribe to comments, so threads update live
+    const unsubscribeComments = subscribeToPlanComments(planId, setComments);
+
     // Initial load
     loadPlan();
 
     return () => {
       unsubscribePlan();
       unsubscribeMembers();
+      unsubscribeVotes();
+      unsubscribeComments();
+      // Don't keep generating (and spending quota) for a plan that's no longer open
+      generationAbortController.current?.abort();
     };
   }, [planId]);
 
@@ -63,6 +134,92 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
     }
   }, [plan, editingGroupVibe, editingMustDo, editingVeto]);
 
+  // Re-checked whenever the itinerary or the constraints change
+  const constraintReport = useMemo(
+    () => plan?.itinerary
+      ? checkItineraryConstraints(plan.itinerary, plan.constraints || [], plan.mustDoList, plan.vetoList)
+      : null,
+    [plan?.itinerary, plan?.constraints, plan?.mustDoList, plan?.vetoList]
+  );
+
+  // Votes from members who have since left the plan aren't counted
+  const currentMember = members.find((member) => member.id === memberId) || null;
+  const activeVotes = useMemo(
+    () => memberVotes.filter((entry) => members.some((member) => member.id === entry.memberId)),
+    [memberVotes, members]
+  );
+  const voteTallies = useMemo(() => tallyVotes(activeVotes), [activeVotes]);
+  const voterCount = activeVotes.filter((entry) => Object.keys(entry.votes).length > 0).length;
+
+  const handleVote = (voteKey: string, value: VoteValue | null) => {
+    if (!currentMember) return;
+    castVote(planId, currentMember, voteKey, value).catch((err: any) => {
+      setError(err.message || 'Failed to save your vote');
+    });
+  };
+
+  const voting: Voting = {
+    tallies: voteTallies,
+    myVotes: getMemberVotes(activeVotes, currentMember?.id || null),
+    onVote: currentMember ? handleVote : undefined,
+  };
+
+  // Per-person cost estimate; null for itineraries generated before costs were estimated
+  const costSummary = useMemo(
+    () => (plan?.itinerary ? getTripCost(plan.itinerary, plan.selectedHotel || null) : null),
+    [plan?.itinerary, plan?.selectedHotel]
+  );
+
+  // Another tab or person holds the plan's generation lock; this tab's own runs are covered by generating/regeneratingDayIndex
+  const generationLockedElsewhere = !generating && regeneratingDayIndex === null && isGenerationActive(plan?.generation);
+
+  // Released even when generation fails or is cancelled; failures are shown to everyone, so only the first line is shared
+  const releaseLock = async (lockId: string, failure: string | null) => {
+    try {
+      await releaseGenerationLock(planId, lockId, failure ? failure.split('\n')[0] : null);
+    } catch (err) {
+      console.error('Failed to release the generation lock:', err);
+    }
+  };
+
+  const getLockHolderName = () => userProfile?.displayName || currentUser?.displayName || 'The trip creator';
+
+  // Comments are attributed to the signed-in creator or this device's member; anyone else can only read
+  // The security rules require the name on the creator's profile (or the member document)
+  const commentsByThread = useMemo(() => groupCommentsByThread(comments), [comments]);
+  const commentViewer: CommentAuthor | null = isCreator && currentUser && userProfile
+    ? { id: currentUser.uid, name: userProfile.displayName, role: 'creator' }
+    : currentMember
+      ? { id: currentMember.id, name: currentMember.name, role: 'member' }
+      : null;
+  const commentViewerId = commentViewer?.id || null;
+
+  useEffect(() => {
+    setReadMarkers(commentViewerId ? loadReadMarkers(planId, commentViewerId) : {});
+  }, [planId, commentViewerId]);
+
+  const handleReadThread = (threadKey: string) => {
+    if (!commentViewerId) return;
+    setReadMarkers((markers) => {
+      const updated = { ...markers, [threadKey]: Date.now() };
+      saveReadMarkers(planId, commentViewerId, updated);
+      return updated;
+    });
+  };
+
+  const handlePostComment = async (threadKey: string, text: string) => {
+    if (!commentViewer) return;
+    await addComment(planId, threadKey, commentViewer, text);
+  };
+
+  const discussion: Discussion = {
+    commentsByThread,
+    readMarkers,
+    viewer: commentViewer,
+    onPost: handlePostComment,
+    onRead: handleReadThread,
+  };
+
   const loadPlan = async () => {
     try {
       const planData = await getPlan(planId);
@@ -76,41 +233,214 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
 
   const handleGenerateItinerary = async () => {
     if (!plan) return;
+    if (isTripTooLong(plan.startDate, plan.endDate)) {
+      setError(`This trip is longer than ${MAX_TRIP_DAYS} days, the most an itinerary can cover`);
+      return;
+    }
 
+    const abortController = new AbortController();
+    generationAbortController.current = abortController;
     setGenerating(true);
+    setStreamingItinerary(null);
     setError(null);
+    setPinnedItemChanges([]);
+
+    // Use the plan's aggregated data (already stored in plan.groupVibe, plan.mustDoList, plan.vetoList)
+    // These are automatically updated when members join or update preferences
+    const inputs = getGenerationInputs(plan);
+    // Empty for older plans that only have free-text dates
+    const tripDays = getTripDays(inputs.startDate, inputs.endDate);
+    let lockId: string | null = null;
+    let failure: string | null = null;
 
     try {
-      // Use the plan's aggregated data (already stored in plan.groupVibe, plan.mustDoList, plan.vetoList)
-      // These are automatically updated when members join or update preferences
-      const result = await generateItinerary(
-        plan.destination,
-        plan.tripDates,
-        plan.groupVibe,
-        plan.mustDoList,
-        plan.vetoList
+      // Claimed in a transaction, so a second "Generate" anywhere else fails here instead of overwriting this run
+      lockId = await claimGenerationLock(planId, { kind: 'itinerary', startedByName: getLockHolderName() });
+
+      // Stream the response so days render as soon as they arrive
+      const result = await generateItineraryStream(
+        planId,
+        inputs.destination,
+        inputs.tripDates,
+        inputs.groupVibe,
+        inputs.mustDoList,
+        inputs.vetoList,
+        inputs.constraints,
+        tripDays,
+        inputs.language,
+        inputs.baseHotel,
+        inputs.pinnedItems,
+        (partial) => setStreamingItinerary(partial),
+        abortController.signal,
+        lockId
       );
 
       if (!result.itineraryJson) {
         throw new Error('No itinerary data received');
       }
 
-      const cleanedJsonString = result.itineraryJson.replace(/```json|```/g, '').trim();
-      const parsedItinerary: Itinerary = JSON.parse(cleanedJsonString);
-      const matchedItinerary = matchSourcesToItinerary(parsedItinerary, result.sources);
+      // Validate the response, repairing it locally or via the model if needed
+      // With real dates the day count has to match, and each day gets its calendar date
+      const parsedItinerary = await parseItineraryWithRepair(planId, result.generationId, result.itineraryJson, tripDays.length || null, abortController.signal);
+      const datedItinerary = assignCalendarDates(parsedItinerary, inputs.startDate);
+      const sourcedItinerary = matchSourcesToItinerary(datedItinerary, result.sources);
+      // Pinned items the model dropped are put back after sources are matched, so they keep their links
+      const pinned = applyPinnedItems(sourcedItinerary.dailyItinerary, inputs.pinnedItems);
+      const matchedItinerary = { ...sourcedItinerary, dailyItinerary: pinned.days };
+
+      // Last chance to cancel; once saving starts the new itinerary is kept
+      throwIfAborted(abortController.signal);
 
       // Save to plan
-      await saveItineraryToPlan(planId, matchedItinerary, result.sources);
+      await saveItineraryToPlan(planId, matchedItinerary, result.sources, {
+        kind: 'itinerary',
+        summary: matchedItinerary.tripTitle || 'Generated itinerary',
+        inputs,
+        model: result.model,
+        promptTemplate: result.promptTemplate,
+      });
+      setPinnedItemChanges(pinned.changes);
 
       // Reload plan to get updated itinerary
       await loadPlan();
     } catch (err: any) {
-      setError(err.message || 'Failed to generate itinerary');
+      // A cancelled generation leaves the previous itinerary as it was
+      if (!isAbortError(err)) {
+        failure = err.message || 'Failed to generate itinerary';
+        setError(failure);
+      }
     } finally {
+      if (lockId) {
+        await releaseLock(lockId, failure);
+      }
+      generationAbortController.current = null;
       setGenerating(false);
+      setStreamingItinerary(null);
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortController.current?.abort();
+  };
+
+  const handleRegenerateDay = async (dayIndex: number, violations: ConstraintViolation[] = []) => {
+    if (!plan || !plan.itinerary) return;
+
+    setRegeneratingDayIndex(dayIndex);
+    setError(null);
+    setPinnedItemChanges([]);
+
+    const inputs = getGenerationInputs(plan, dayIndex);
+    const currentDay = plan.itinerary.dailyItinerary[dayIndex];
+    const dayLabel = currentDay.day;
+    let lockId: string | null = null;
+    let failure: string | null = null;
+
+    try {
+      lockId = await claimGenerationLock(planId, { kind: 'day', dayIndex, startedByName: getLockHolderName() });
+
+      // The rest of the itinerary is sent as context so places aren't repeated
+      const result = await generateDay(
+        planId,
+        inputs.destination,
+        inputs.tripDates,
+        inputs.groupVibe,
+        inputs.mustDoList,
+        inputs.vetoList,
+        inputs.constraints,
+        inputs.language,
+        inputs.baseHotel,
+        plan.itinerary,
+        dayIndex,
+        violations.map((violation) => violation.message),
+        lockId
+      );
+
+      const parsedDay = await parseDayWithRepair(planId, result.generationId, result.dayJson);
+      // Keep the original day label and calendar date even if the model changed them
+      const sourcedDay = matchSourcesToDay({ ...parsedDay, day: dayLabel, date: currentDay.date, weekday: currentDay.weekday }, result.sources);
+      const pinned = applyPinnedItems([sourcedDay], inputs.pinnedItems, dayIndex);
+      const matchedDay = pinned.days[0];
+
+      await replaceDayInPlan(planId, dayIndex, matchedDay, result.sources, {
+        kind: 'day',
+        summary: violations.length > 0 ? `Fixed constraint issues on ${dayLabel}` : `Regenerated ${dayLabel}`,
+        inputs,
+        model: result.model,
+        promptTemplate: result.promptTemplate,
+      });
+      setPinnedItemChanges(pinned.changes);
+      await loadPlan();
+    } catch (err: any) {
+      failure = err.message || 'Failed to regenerate day';
+      setError(failure);
+    } finally {
+      if (lockId) {
+        await releaseLock(lockId, failure);
+      }
+      setRegeneratingDayIndex(null);
     }
   };
 
+  const handleSuggestAlternatives = async (dayIndex: number, itemIndex: number): Promise<ItineraryItem[]> => {
+    if (!plan || !plan.itinerary) return [];
+
+    const result = await generateItemAlternatives(
+      planId,
+      plan.destination,
+      plan.groupVibe,
+      plan.vetoList,
+      plan.constraints || [],
+      plan.language || DEFAULT_LANGUAGE,
+      plan.itinerary,
+      dayIndex,
+      itemIndex
+    );
+    alternativeResults.current[`${dayIndex}-${itemIndex}`] = {
+      sources: result.sources,
+      model: result.model,
+      promptTemplate: result.promptTemplate,
+    };
+    return result.alternatives.map((alternative) => matchSourcesToItem(alternative, result.sources));
+  };
+
+  const handleSwapItem = async (dayIndex: number, itemIndex: number, alternative: ItineraryItem) => {
+    if (!plan || !plan.itinerary) return;
+
+    const key = `${dayIndex}-${itemIndex}`;
+    const day = plan.itinerary.dailyItinerary[dayIndex];
+    const original = day?.items[itemIndex];
+    const alternativeResult = alternativeResults.current[key];
+
+    await replaceItemInPlan(planId, dayIndex, itemIndex, alternative, alternativeResult?.sources || [], {
+      kind: 'item',
+      summary: `Swapped ${original?.activity || 'an item'} for ${alternative.activity} on ${day?.day || `Day ${dayIndex + 1}`}`,
+      inputs: getGenerationInputs(plan),
+      model: alternativeResult?.model || 'unknown',
+      promptTemplate: alternativeResult?.promptTemplate || 'unknown',
+    });
+    delete alternativeResults.current[key];
+    await loadPlan();
+  };
+
+  // The selected hotel shows up for everyone through the plan subscription
+  const handleSelectHotel = (hotel: Hotel | null) => {
+    selectPlanHotel(planId, hotel).catch((err: any) => {
+      setError(err.message || 'Failed to save the base hotel');
+    });
+  };
+
+  const handleTogglePin = (dayIndex: number, itemIndex: number, pinned: boolean) => {
+    setItemPinned(planId, dayIndex, itemIndex, pinned).catch((err: any) => {
+      setError(err.message || 'Failed to pin the item');
+    });
+  };
+
+  const handleSaveItineraryEdits = async (itinerary: Itinerary) => {
+    await saveItineraryEdits(planId, itinerary);
+    setEditingItinerary(false);
+    await loadPlan();
+  };
 
   const copyInviteCode = () => {
     if (plan?.inviteCode) {
@@ -158,6 +488,21 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
     }
   };
 
+  const handleChangeLanguage = async (language: string) => {
+    setSaving(true);
+    try {
+      await updatePlan(planId, { language });
+    } catch (err: any) {
+      setError(err.message || 'Failed to update language');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveConstraints = async (constraints: PlanConstraint[]) => {
+    await updatePlan(planId, { constraints });
+  };
+
   const handleCancelEdit = (field: 'groupVibe' | 'mustDo' | 'veto') => {
     if (!plan) return;
     if (field === 'groupVibe') {
@@ -233,6 +578,29 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
                 <div className="font-semibold text-sm md:text-base">{plan.tripDates}</div>
               </div>
             </div>
+            <div className="bg-white/20 backdrop-blur-sm px-4 py-2 rounded-lg flex items-center gap-2">
+              <span className="text-xl">🗣️</span>
+              <div>
+                <div className="text-xs text-blue-100">Itinerary Language</div>
+                {isCreator ? (
+                  <select
+                    value={getLanguage(plan.language).code}
+                    onChange={(e) => handleChangeLanguage(e.target.value)}
+                    disabled={saving || generating}
+                    title="Applies to the next generation"
+                    className="font-semibold text-sm md:text-base bg-transparent text-white focus:outline-none cursor-pointer"
+                  >
+                    {SUPPORTED_LANGUAGES.map((language) => (
+                      <option key={language.code} value={language.code} className="text-gray-800">
+                        {language.nativeName}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="font-semibold text-sm md:text-base">{getLanguage(plan.language).nativeName}</div>
+                )}
+              </div>
+            </div>
             <div className="bg-white/20 backdrop-blur-sm px-4 py-2 rounded-lg flex items-center gap-2">
               <span className="text-xl">✅</span>
               <div>
@@ -283,6 +651,11 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
                         {member.preferences.budget && (
                           <div className="text-xs text-gray-600 mt-1">
                             💰 {member.preferences.budget}
+                            {costSummary && plan.itinerary && compareToBudget(costSummary, member.preferences.budget, plan.itinerary).status === 'over' && (
+                              <span className="ml-1.5 bg-red-100 text-red-700 border border-red-300 px-1.5 py-0.5 rounded-full font-semibold whitespace-nowrap">
+                                Over budget
+                              </span>
+                            )}
                           </div>
                         )}
                       </div>
@@ -351,11 +724,18 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
               )}
             </div>
 
-            {/* Must-Do Items - Editable */}
+            {/* Structured constraints - creator edits, members see who asked for what */}
+            <ConstraintsEditor
+              constraints={plan.constraints || []}
+              canEdit={isCreator}
+              onChange={handleSaveConstraints}
+            />
+
+            {/* Must-Do Items - Editable free-text fallback */}
             <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-3 md:p-4 rounded-xl border-l-4 border-green-400">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-sm md:text-base font-semibold text-green-700 flex items-center gap-1.5">
-                  <span>✅</span> Must-Do
+                  <span>✅</span> Must-Do Notes
                 </h3>
                 {!editingMustDo ? (
                   <button
@@ -397,11 +777,11 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
               )}
             </div>
 
-            {/* Veto Items - Editable */}
+            {/* Veto Items - Editable free-text fallback */}
             <div className="bg-gradient-to-r from-red-50 to-pink-50 p-3 md:p-4 rounded-xl border-l-4 border-red-400">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-sm md:text-base font-semibold text-red-700 flex items-center gap-1.5">
-                  <span>🚫</span> Veto
+                  <span>🚫</span> Veto Notes
                 </h3>
                 {!editingVeto ? (
                   <button
@@ -446,6 +826,20 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
         </div>
       </div>
 
+      {/* Generation status, broadcast to every open dashboard */}
+      {plan.generation && generationLockedElsewhere ? (
+        <div className="p-4 bg-indigo-50 border-2 border-indigo-200 text-indigo-800 rounded-xl shadow flex items-center gap-3">
+          <span className="text-2xl animate-spin">🔄</span>
+          <p className="font-semibold">
+            {describeGeneration(plan.generation, plan.itinerary?.dailyItinerary[plan.generation.dayIndex ?? -1]?.day)}
+          </p>
+        </div>
+      ) : plan.generation?.status === 'failed' && !error && !generating && regeneratingDayIndex === null && (
+        <div className="p-4 bg-amber-50 border-2 border-amber-200 text-amber-800 rounded-xl text-sm">
+          ⚠️ The last generation{plan.generation.startedByName ? ` by ${plan.generation.startedByName}` : ''} failed: {plan.generation.error}
+        </div>
+      )}
+
       {/* Generate Itinerary (Creator Only) */}
       {isCreator && (
         <div className="bg-white p-4 md:p-8 rounded-xl md:rounded-2xl shadow-xl border-2 border-indigo-100">
@@ -453,19 +847,73 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
             <span className="text-2xl md:text-3xl">✨</span>
             <h2 className="text-xl md:text-2xl font-bold text-gray-800">Generate Itinerary</h2>
           </div>
-          {plan.itinerary ? (
+          {generating && streamingItinerary ? (
+            <ItineraryDisplay
+              itinerary={streamingItinerary}
+              sources={[]}
+              selectedHotel={plan.selectedHotel || null}
+              isStreaming
+            />
+          ) : plan.itinerary && editingItinerary ? (
+            <ItineraryEditor
+              itinerary={plan.itinerary}
+              onSave={handleSaveItineraryEdits}
+              onCancel={() => setEditingItinerary(false)}
+            />
+          ) : plan.itinerary ? (
             <div>
               <ItineraryDisplay
                 itinerary={plan.itinerary}
                 sources={plan.sources || []}
+                onRegenerateDay={generating || generationLockedElsewhere ? undefined : handleRegenerateDay}
+                regeneratingDayIndex={regeneratingDayIndex}
+                onSuggestAlternatives={handleSuggestAlternatives}
+                onSwapItem={handleSwapItem}
+                voting={voting}
+                discussion={discussion}
+                selectedHotel={plan.selectedHotel || null}
+                onSelectHotel={handleSelectHotel}
+                onTogglePin={generating || regeneratingDayIndex !== null ? undefined : handleTogglePin}
               />
-              <button
-                onClick={handleGenerateItinerary}
-                disabled={generating}
-                className="mt-4 md:mt-6 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 md:px-8 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 w-full sm:w-auto min-h-[44px] text-sm md:text-base"
-              >
-                {generating ? '🔄 Regenerating...' : '🔄 Regenerate Itinerary'}
-              </button>
+              {pinnedItemChanges.length > 0 && (
+                <div className="mt-4 p-4 bg-amber-50 border-2 border-amber-200 rounded-xl text-sm text-amber-900">
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <p className="font-bold">📌 Pinned items</p>
+                    <button
+                      onClick={() => setPinnedItemChanges([])}
+                      className="text-xs font-semibold text-amber-700 hover:text-amber-900"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                  <ul className="space-y-1">
+                    {pinnedItemChanges.map((change, index) => (
+                      <li key={index}>
+                        {change.kind === 'moved' ? '⚠️' : '↩️'} {change.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {pinnedItemChanges.some((change) => change.kind === 'moved') && (
+                    <p className="mt-2 text-xs">Moved items stay pinned where they are now. Use Edit Itinerary to move them back.</p>
+                  )}
+                </div>
+              )}
+              <div className="mt-4 md:mt-6 flex flex-col sm:flex-row gap-2 md:gap-3">
+                <button
+                  onClick={handleGenerateItinerary}
+                  disabled={generating || regeneratingDayIndex !== null || generationLockedElsewhere}
+                  className="bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 md:px-8 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 w-full sm:w-auto min-h-[44px] text-sm md:text-base"
+                >
+                  {generating ? '🔄 Regenerating...' : '🔄 Regenerate Itinerary'}
+                </button>
+                <button
+                  onClick={() => setEditingItinerary(true)}
+                  disabled={generating || regeneratingDayIndex !== null || generationLockedElsewhere}
+                  className="bg-white border-2 border-indigo-300 text-indigo-700 hover:bg-indigo-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed font-bold py-3 px-4 md:px-8 rounded-xl transition-colors w-full sm:w-auto min-h-[44px] text-sm md:text-base"
+                >
+                  ✏️ Edit Itinerary
+                </button>
+              </div>
             </div>
           ) : (
             <div className="text-center py-8">
@@ -475,7 +923,7 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
               </p>
               <button
                 onClick={handleGenerateItinerary}
-                disabled={generating}
+                disabled={generating || generationLockedElsewhere}
                 className="bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed text-white font-bold py-4 px-6 md:px-8 rounded-xl transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 text-base md:text-lg w-full sm:w-auto min-h-[48px]"
               >
                 {generating ? '✨ Generating...' : '✨ Generate Itinerary'}
@@ -485,10 +933,23 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
 
           {generating && (
             <div className="mt-6 text-center">
-              <LoadingSpinner />
-              <p className="text-gray-600 mt-4">
-                ✨ Creating your perfect itinerary... This may take 30-60 seconds.
-              </p>
+              {!streamingItinerary && (
+                <>
+                  <LoadingSpinner />
+                  <p className="text-gray-600 mt-4">
+                    ✨ Creating your perfect itinerary... This may take 30-60 seconds.
+                  </p>
+                </>
+              )}
+              <button
+                onClick={handleCancelGeneration}
+                className="mt-4 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 font-semibold py-2 px-6 rounded-xl transition-colors min-h-[44px]"
+              >
+                ✖️ Cancel
+              </button>
+              {plan.itinerary && (
+                <p className="text-xs text-gray-500 mt-2">Cancelling keeps the current itinerary.</p>
+              )}
             </div>
           )}
         </div>
@@ -501,13 +962,57 @@ const PlanDashboard: React.FC<PlanDashboardProps> = ({ planId, isCreator }) => {
             <span className="text-3xl">🗺️</span>
             <h2 className="text-2xl font-bold text-gray-800">Trip Itinerary</h2>
           </div>
+          <p className="text-sm text-gray-600 mb-4">
+            {currentMember
+              ? `👍 / 👎 activities, hidden gems and hotels to tell the group what you think, ${currentMember.name}, or open one to discuss it.`
+              : 'Join this plan (or sign back in with your passcode) on this device to vote on and discuss the itinerary.'}
+          </p>
           <ItineraryDisplay
             itinerary={plan.itinerary}
             sources={plan.sources || []}
+            voting={voting}
+            discussion={discussion}
+            selectedHotel={plan.selectedHotel || null}
           />
         </div>
       )}
 
+      {/* Constraint Check ("fix this day" is creator only) */}
+      {constraintReport && plan.itinerary && !(generating && streamingItinerary) && (
+        <ConstraintReport
+          report={constraintReport}
+          days={plan.itinerary.dailyItinerary}
+          onFixDay={isCreator ? handleRegenerateDay : undefined}
+          fixingDayIndex={regeneratingDayIndex}
+          disabled={generating || generationLockedElsewhere || editingItinerary}
+        />
+      )}
+
+      {/* Most-disliked places as swap candidates (creator only) */}
+      {isCreator && plan.itinerary && !(generating && streamingItinerary) && (
+        <ConsensusReport
+          itinerary={plan.itinerary}
+          tallies={voteTallies}
+          voterCount={voterCount}
+          memberCount={members.length}
+        />
+      )}
+
+      {/* Estimated costs against each member's budget */}
+      {costSummary && plan.itinerary && !(generating && streamingItinerary) && (
+        <BudgetReport summary={costSummary} itinerary={plan.itinerary} members={members} />
+      )}
+
+      {/* Version History (restore is creator only) */}
+      {plan.itinerary && (
+        <VersionHistory
+          planId={planId}
+          currentVersionId={plan.currentVersionId}
+          canRestore={isCreator}
+          disabled={generating || regeneratingDayIndex !== null || generationLockedElsewhere || editingItinerary}
+        />
+      )}
+
       {error && (
         <div className="p-6 bg-red-50 border-2 border-red-200 text-red-700 rounded-xl shadow-lg">
           <div className="flex items-center gap-2 mb-2">
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { getCreatorPlans } from '../../services/firebase/plans';
+import { getCreatorMonthlyUsage, getPlanUsageTotals } from '../../services/firebase/usage';
 import { Plan } from '../../types/plan';
+import { CreatorMonthlyUsage } from '../../types/usage';
+import { formatCostUsd, formatTokenCount, getTotalTokens } from '../../utils/generationUsage';
 import LoadingSpinner from '../LoadingSpinner';
 
 interface PlansListProps {
@@ -11,6 +14,7 @@ interface PlansListProps {
 
 const PlansList: React.FC<PlansListProps> = ({ creatorId, onSelectPlan, onCreateNew }) => {
   const [plans, setPlans] = useState<Plan[]>([]);
+  const [monthlyUsage, setMonthlyUsage] = useState<CreatorMonthlyUsage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -22,8 +26,16 @@ const PlansList: React.FC<PlansListProps> = ({ creatorId, onSelectPlan, onCreate
     setLoading(true);
     setError(null);
     try {
-      const plansList = await getCreatorPlans(creatorId);
+      // Usage is informational, so a failure to load it doesn't hide the plans
+      const [plansList, usage] = await Promise.all([
+        getCreatorPlans(creatorId),
+        getCreatorMonthlyUsage(creatorId).catch((err) => {
+          console.error('Failed to load generation usage:', err);
+          return null;
+        }),
+      ]);
       setPlans(plansList);
+      setMonthlyUsage(usage);
     } catch (err: any) {
       setError(err.message || 'Failed to load plans');
     } finally {
@@ -65,6 +77,34 @@ const PlansList: React.FC<PlansListProps> = ({ creatorId, onSelectPlan, onCreate
         </button>
       </div>
 
+      {monthlyUsage && (
+        <div className="mb-6 p-4 rounded-lg bg-slate-700/60 border border-slate-600 text-sm text-slate-300">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="font-semibold text-slate-100">📊 Generations this month</span>
+            <span className={monthlyUsage.quota !== null && monthlyUsage.generations >= monthlyUsage.quota ? 'text-red-400 font-semibold' : ''}>
+              {monthlyUsage.generations}
+              {monthlyUsage.quota !== null && ` of ${monthlyUsage.quota}`}
+            </span>
+          </div>
+          {monthlyUsage.quota !== null && (
+            <div className="mt-2 h-1.5 rounded-full bg-slate-600 overflow-hidden">
+              <div
+                className={`h-full ${monthlyUsage.generations >= monthlyUsage.quota ? 'bg-red-500' : 'bg-cyan-500'}`}
+                style={{ width: `${Math.min(100, (monthlyUsage.generations / monthlyUsage.quota) * 100)}%` }}
+              />
+            </div>
+          )}
+          <div className="mt-2 text-xs text-slate-400">
+            {formatTokenCount(getTotalTokens(monthlyUsage))} tokens · {monthlyUsage.groundingCalls} grounding searches · ~{formatCostUsd(monthlyUsage.costUsd)} estimated
+          </div>
+          {monthlyUsage.quota !== null && monthlyUsage.generations >= monthlyUsage.quota && (
+            <p className="mt-2 text-xs text-red-400">
+              You've reached your monthly generation quota. New generations are blocked until next month.
+            </p>
+          )}
+        </div>
+      )}
+
       {plans.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-slate-400 mb-6 text-lg">
@@ -79,37 +119,43 @@ const PlansList: React.FC<PlansListProps> = ({ creatorId, onSelectPlan, onCreate
         </div>
       ) : (
         <div className="grid md:grid-cols-2 gap-4">
-          {plans.map((plan) => (
-            <div
-              key={plan.id}
-              onClick={() => onSelectPlan(plan.id)}
-              className="bg-slate-700 p-6 rounded-lg border-2 border-slate-600 hover:border-cyan-500 cursor-pointer transition-colors"
-            >
-              <h3 className="text-xl font-bold text-white mb-2">{plan.destination}</h3>
-              <div className="text-sm text-slate-400 space-y-1 mb-4">
-                <p>📅 {plan.tripDates}</p>
-                <p>👥 {plan.memberIds?.length || 0} member(s)</p>
-                <p>Status: <span className="capitalize">{plan.status}</span></p>
-                {plan.itinerary && (
-                  <p className="text-cyan-400">✓ Itinerary generated</p>
-                )}
-              </div>
-              <div className="flex items-center justify-between mt-4">
-                <div className="text-xs text-slate-500">
-                  Created {plan.createdAt.toLocaleDateString()}
+          {plans.map((plan) => {
+            const usage = getPlanUsageTotals(plan);
+            return (
+              <div
+                key={plan.id}
+                onClick={() => onSelectPlan(plan.id)}
+                className="bg-slate-700 p-6 rounded-lg border-2 border-slate-600 hover:border-cyan-500 cursor-pointer transition-colors"
+              >
+                <h3 className="text-xl font-bold text-white mb-2">{plan.destination}</h3>
+                <div className="text-sm text-slate-400 space-y-1 mb-4">
+                  <p>📅 {plan.tripDates}</p>
+                  <p>👥 {plan.memberIds?.length || 0} member(s)</p>
+                  <p>Status: <span className="capitalize">{plan.status}</span></p>
+                  {plan.itinerary && (
+                    <p className="text-cyan-400">✓ Itinerary generated</p>
+                  )}
+                  {usage.generations > 0 && (
+                    <p>📊 {usage.generations} generation(s) · ~{formatCostUsd(usage.costUsd)}</p>
+                  )}
+                </div>
+                <div className="flex items-center justify-between mt-4">
+                  <div className="text-xs text-slate-500">
+                    Created {plan.createdAt.toLocaleDateString()}
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSelectPlan(plan.id);
+                    }}
+                    className="bg-cyan-600 hover:bg-cyan-700 text-white font-semibold py-1.5 px-4 rounded-lg transition-colors text-sm"
+                  >
+                    View Plan
+                  </button>
                 </div>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onSelectPlan(plan.id);
-                  }}
-                  className="bg-cyan-600 hover:bg-cyan-700 text-white font-semibold py-1.5 px-4 rounded-lg transition-colors text-sm"
-                >
-                  View Plan
-                </button>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
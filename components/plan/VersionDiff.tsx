@@ -0,0 +1,168 @@
+import React, { useMemo } from 'react';
+import { diffItineraries, ItemDiff, ItemChangeStatus } from '../../utils/diffItineraries';
+import { ItineraryVersion } from '../../types/plan';
+
+interface VersionDiffProps {
+  before: ItineraryVersion;
+  after: ItineraryVersion;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ItemChangeStatus, string> = {
+  unchanged: 'border-gray-200 bg-white text-gray-700',
+  added: 'border-green-300 bg-green-50 text-green-800',
+  removed: 'border-red-300 bg-red-50 text-red-800',
+  moved: 'border-blue-300 bg-blue-50 text-blue-800',
+  retimed: 'border-amber-300 bg-amber-50 text-amber-800',
+};
+
+const STATUS_ICONS: Record<ItemChangeStatus, string> = {
+  unchanged: '',
+  added: '➕',
+  removed: '➖',
+  moved: '↪️',
+  retimed: '⏰',
+};
+
+// Explains where a changed item went (before side) or came from (after side)
+const describeChange = (diff: ItemDiff, side: 'before' | 'after'): string | null => {
+  switch (diff.status) {
+    case 'added':
+      return 'Added';
+    case 'removed':
+      return 'Removed';
+    case 'moved':
+      return side === 'before'
+        ? `Moved to ${diff.after!.day}${diff.after!.time ? ` at ${diff.after!.time}` : ''}`
+        : `Moved from ${diff.before!.day}${diff.before!.time ? ` at ${diff.before!.time}` : ''}`;
+    case 'retimed':
+      return `${diff.before!.time || '?'} → ${diff.after!.time || '?'}`;
+    default:
+      return null;
+  }
+};
+
+const DiffItem: React.FC<{ diff: ItemDiff; side: 'before' | 'after' }> = ({ diff, side }) => {
+  const change = describeChange(diff, side);
+  const time = side === 'before' ? diff.before?.time : diff.after?.time;
+
+  return (
+    <li className={`p-2 rounded-lg border text-xs md:text-sm ${STATUS_STYLES[diff.status]}`}>
+      <div className="flex items-start gap-2">
+        <span className="font-mono text-[11px] text-gray-500 shrink-0 w-16">{time}</span>
+        <span className={`font-semibold break-words min-w-0 ${diff.status === 'removed' ? 'line-through decoration-red-400' : ''}`}>
+          {diff.item.activity}
+        </span>
+      </div>
+      {change && (
+        <div className="mt-1 text-[11px] font-medium">
+          {STATUS_ICONS[diff.status]} {change}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const VersionDiff: React.FC<VersionDiffProps> = ({ before, after, onClose }) => {
+  const diff = useMemo(() => diffItineraries(before.itinerary, after.itinerary), [before, after]);
+
+  return (
+    <div className="mt-4 p-3 md:p-4 rounded-xl border-2 border-indigo-200 bg-indigo-50/40">
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <div>
+          <h3 className="font-bold text-gray-800 text-sm md:text-base">Comparing versions</h3>
+          <p className="text-xs text-gray-600 mt-1">
+            {diff.hasChanges
+              ? `${diff.counts.added} added · ${diff.counts.removed} removed · ${diff.counts.moved} moved · ${diff.counts.retimed} retimed`
+              : 'These versions have the same places, times, hotels and packing list.'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-xs text-gray-600 hover:text-gray-700 bg-gray-100 hover:bg-gray-200 px-2 py-1 rounded-lg transition-colors shrink-0"
+        >
+          ✖️
+        </button>
+      </div>
+
+      {/* Column headers */}
+      <div className="grid grid-cols-2 gap-2 md:gap-4 mb-2 text-xs text-gray-600">
+        <div>
+          <div className="font-semibold text-gray-800 break-words">{before.summary}</div>
+          <div>{before.createdAt.toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="font-semibold text-gray-800 break-words">{after.summary}</div>
+          <div>{after.createdAt.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {diff.days.map((day) => (
+          <div key={day.dayIndex} className={day.hasChanges ? '' : 'opacity-60'}>
+            <div className="grid grid-cols-2 gap-2 md:gap-4">
+              <div>
+                <div className="text-xs font-bold text-indigo-700 mb-1 break-words">
+                  {day.beforeLabel ? `${day.beforeLabel}: ${day.beforeTitle}` : '—'}
+                </div>
+                <ul className="space-y-1">
+                  {day.before.map((itemDiff, index) => (
+                    <DiffItem key={index} diff={itemDiff} side="before" />
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <div className="text-xs font-bold text-indigo-700 mb-1 break-words">
+                  {day.afterLabel ? `${day.afterLabel}: ${day.afterTitle}` : '—'}
+                </div>
+                <ul className="space-y-1">
+                  {day.after.map((itemDiff, index) => (
+                    <DiffItem key={index} diff={itemDiff} side="after" />
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {(diff.hotels.added.length > 0 || diff.hotels.removed.length > 0) && (
+        <div className="mt-4">
+          <h4 className="text-xs font-bold text-gray-800 mb-1">🏨 Recommended hotels</h4>
+          <ul className="flex flex-wrap gap-1.5 text-xs">
+            {diff.hotels.removed.map((hotel) => (
+              <li key={`removed-${hotel.name}`} className="px-2 py-0.5 rounded-full border border-red-300 bg-red-50 text-red-800 line-through">
+                {hotel.name}
+              </li>
+            ))}
+            {diff.hotels.added.map((hotel) => (
+              <li key={`added-${hotel.name}`} className="px-2 py-0.5 rounded-full border border-green-300 bg-green-50 text-green-800">
+                ➕ {hotel.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(diff.packingList.added.length > 0 || diff.packingList.removed.length > 0) && (
+        <div className="mt-4">
+          <h4 className="text-xs font-bold text-gray-800 mb-1">🎒 Packing list</h4>
+          <ul className="flex flex-wrap gap-1.5 text-xs">
+            {diff.packingList.removed.map((entry) => (
+              <li key={`removed-${entry}`} className="px-2 py-0.5 rounded-full border border-red-300 bg-red-50 text-red-800 line-through">
+                {entry}
+              </li>
+            ))}
+            {diff.packingList.added.map((entry) => (
+              <li key={`added-${entry}`} className="px-2 py-0.5 rounded-full border border-green-300 bg-green-50 text-green-800">
+                ➕ {entry}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionDiff;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeToItineraryVersions, restoreItineraryVersion } from '../../services/firebase/versions';
+import { ItineraryVersion, ItineraryVersionKind } from '../../types/plan';
+import VersionDiff from './VersionDiff';
+import { getLanguage } from '../../utils/languages';
+import { PROMPT_TEMPLATES } from '../../services/prompts';
+
+interface VersionHistoryProps {
+  planId: string;
+  currentVersionId?: string | null;
+  canRestore: boolean;
+  disabled?: boolean; // e.g. while a generation is running
+}
+
+const KIND_LABELS: Record<ItineraryVersionKind, string> = {
+  itinerary: '✨ Full itinerary',
+  day: '🔄 Day regenerated',
+  item: '🔀 Item swapped',
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ planId, currentVersionId, canRestore, disabled = false }) => {
+  const [versions, setVersions] = useState<ItineraryVersion[]>([]);
+  const [expandedVersionId, setExpandedVersionId] = useState<string | null>(null);
+  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(null);
+  const [compareVersionIds, setCompareVersionIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToItineraryVersions(planId, setVersions);
+    return () => unsubscribe();
+  }, [planId]);
+
+  // Manual edits aren't stored as versions and clear currentVersionId (older plans have none at all)
+  const hasManualEdits = currentVersionId === null;
+
+  const handleRestore = async (version: ItineraryVersion) => {
+    const editWarning = hasManualEdits ? ' Manual edits made since the last generation will be lost.' : '';
+    if (!confirm(`Restore "${version.summary}" from ${version.createdAt.toLocaleString()} as the current itinerary?${editWarning}`)) {
+      return;
+    }
+
+    setRestoringVersionId(version.id);
+    setError(null);
+    try {
+      await restoreItineraryVersion(planId, version.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to restore version');
+    } finally {
+      setRestoringVersionId(null);
+    }
+  };
+
+  // Keeps at most two versions selected, dropping the oldest selection
+  const toggleCompare = (versionId: string) => {
+    setCompareVersionIds((selected) =>
+      selected.includes(versionId)
+        ? selected.filter((id) => id !== versionId)
+        : [...selected, versionId].slice(-2)
+    );
+  };
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  // Versions are listed newest first, so the later index is the older version
+  const comparedVersions = versions.filter((version) => compareVersionIds.includes(version.id));
+  const [compareAfter, compareBefore] = comparedVersions;
+
+  return (
+    <div className="bg-white p-4 md:p-6 rounded-xl md:rounded-2xl shadow-xl border-2 border-amber-100">
+      <div className="flex items-center gap-2 md:gap-3 mb-4">
+        <span className="text-2xl md:text-3xl">🕰️</span>
+        <h2 className="text-lg md:text-xl font-bold text-gray-800">Version History ({versions.length})</h2>
+      </div>
+      {hasManualEdits && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-2 py-1.5 mb-3">
+          ✏️ The current itinerary has manual edits, so it doesn't match any version below.
+        </p>
+      )}
+      {versions.length > 1 && (
+        <p className="text-xs text-gray-500 mb-3">
+          {compareVersionIds.length === 1
+            ? 'Select one more version to compare.'
+            : 'Select two versions to see what changed between them.'}
+        </p>
+      )}
+
+      <div className="space-y-3 max-h-[480px] overflow-y-auto">
+        {versions.map((version) => {
+          const isCurrent = version.id === currentVersionId;
+          const isExpanded = version.id === expandedVersionId;
+          const isCompared = compareVersionIds.includes(version.id);
+
+          return (
+            <div
+              key={version.id}
+              className={`p-3 md:p-4 rounded-xl border-2 transition-all duration-200 ${
+                isCurrent ? 'border-amber-400 bg-amber-50' : 'border-gray-200 bg-gray-50 hover:border-amber-200'
+              }`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-gray-800 text-sm md:text-base break-words">{version.summary}</span>
+                    {isCurrent && (
+                      <span className="text-xs font-semibold text-amber-700 bg-amber-200 px-2 py-0.5 rounded-full">Current</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {KIND_LABELS[version.kind] || version.kind} · {version.createdAt.toLocaleString()} · {version.model}
+                    {version.promptTemplate && (
+                      <span title={PROMPT_TEMPLATES[version.promptTemplate]?.description}> · {version.promptTemplate}</span>
+                    )}
+                  </div>
+                  {version.quality && (
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {version.quality.violationCount === 0
+                        ? '✅ No constraint issues'
+                        : `⚠️ ${version.quality.violationCount} constraint ${version.quality.violationCount === 1 ? 'issue' : 'issues'}`}
+                      {' · '}🔗 {version.quality.sourceMatchedPlaceCount}/{version.quality.placeCount} places linked to sources
+                    </div>
+                  )}
+                  {version.linkVerification && version.linkVerification.fabricatedLinkCount > 0 && (
+                    <div className="text-xs text-amber-700 mt-0.5">
+                      🚫 {version.linkVerification.fabricatedLinkCount} of {version.linkVerification.modelLinkCount} AI-written links weren't from Google Maps and were removed
+                      {version.linkVerification.recoveredLinkCount > 0 && ` (${version.linkVerification.recoveredLinkCount} replaced by a matching place)`}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {versions.length > 1 && (
+                    <button
+                      onClick={() => toggleCompare(version.id)}
+                      className={`text-xs px-2 py-1 rounded-lg transition-colors ${
+                        isCompared
+                          ? 'text-white bg-indigo-500 hover:bg-indigo-600'
+                          : 'text-indigo-600 bg-indigo-50 hover:bg-indigo-100'
+                      }`}
+                    >
+                      {isCompared ? '✓ Compare' : '↔ Compare'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setExpandedVersionId(isExpanded ? null : version.id)}
+                    className="text-xs text-gray-600 hover:text-gray-700 bg-gray-100 hover:bg-gray-200 px-2 py-1 rounded-lg transition-colors"
+                  >
+                    {isExpanded ? 'Hide inputs' : 'Inputs'}
+                  </button>
+                  {canRestore && !isCurrent && (
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={disabled || restoringVersionId !== null}
+                      className="text-xs text-white bg-amber-500 hover:bg-amber-600 disabled:bg-gray-400 disabled:cursor-not-allowed px-2 py-1 rounded-lg transition-colors"
+                    >
+                      {restoringVersionId === version.id ? 'Restoring...' : '⏪ Restore'}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {isExpanded && (
+                <dl className="mt-3 grid grid-cols-1 sm:grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs text-gray-700">
+                  <dt className="font-semibold">🌍 Destination</dt>
+                  <dd className="break-words">{version.inputs?.destination || '-'}</dd>
+                  <dt className="font-semibold">📅 Dates</dt>
+                  <dd className="break-words">{version.inputs?.tripDates || '-'}</dd>
+                  <dt className="font-semibold">🗣️ Language</dt>
+                  <dd className="break-words">{getLanguage(version.inputs?.language).name}</dd>
+                  <dt className="font-semibold">✨ Vibe</dt>
+                  <dd className="whitespace-pre-wrap break-words">{version.inputs?.groupVibe || '-'}</dd>
+                  <dt className="font-semibold">✅ Must-do</dt>
+                  <dd className="whitespace-pre-wrap break-words">{version.inputs?.mustDoList || '-'}</dd>
+                  <dt className="font-semibold">🚫 Veto</dt>
+                  <dd className="whitespace-pre-wrap break-words">{version.inputs?.vetoList || '-'}</dd>
+                  <dt className="font-semibold">📌 Constraints</dt>
+                  <dd className="break-words">
+                    {version.inputs?.constraints?.length
+                      ? version.inputs.constraints
+                          .map((constraint) => `${constraint.hard ? 'Hard' : 'Soft'} ${constraint.kind === 'veto' ? 'veto' : 'must-do'}: ${constraint.text} (${constraint.addedBy})`)
+                          .join(' · ')
+                      : '-'}
+                  </dd>
+                  <dt className="font-semibold">🏨 Base hotel</dt>
+                  <dd className="break-words">{version.inputs?.baseHotel?.name || '-'}</dd>
+                  <dt className="font-semibold">📌 Pinned</dt>
+                  <dd className="break-words">
+                    {version.inputs?.pinnedItems?.length
+                      ? version.inputs.pinnedItems.map(({ day, item }) => `${item.activity} (${day}, ${item.time})`).join(' · ')
+                      : '-'}
+                  </dd>
+                </dl>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {compareBefore && compareAfter && (
+        <VersionDiff
+          before={compareBefore}
+          after={compareAfter}
+          onClose={() => setCompareVersionIds([])}
+        />
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -6,6 +6,13 @@ PORT=${PORT:-8080}
 sed -i "s/listen 8080/listen $PORT/g" /etc/nginx/conf.d/default.conf || \
 sed -i.bak "s/listen 8080/listen $PORT/g" /etc/nginx/conf.d/default.conf
 
+# Proxy /api/ to the generation server when API_UPSTREAM is set (e.g. https://ryoko-generation-server-xxxxx-uc.a.run.app)
+if [ -n "$API_UPSTREAM" ]; then
+    API_HOST=$(echo "$API_UPSTREAM" | sed -e 's#^[a-z]*://##' -e 's#/.*$##')
+    API_PROXY="location /api/ { proxy_pass $API_UPSTREAM; proxy_ssl_server_name on; proxy_set_header Host $API_HOST; proxy_buffering off; proxy_read_timeout 300s; }"
+    sed -i "s#\# API_PROXY#$API_PROXY#" /etc/nginx/conf.d/default.conf
+fi
+
 # Start nginx
 exec nginx -g "daemon off;"
 
@@ -0,0 +1,33 @@
+import { useEffect, useMemo, useState } from "react";
+import { DailyPlan } from "../types";
+import { TransitionCheck, checkDayTravel, refineDayTravel } from "../utils/travelTime";
+import { getDirectionsProvider } from "../utils/googleDirections";
+import { isAbortError } from "../utils/abort";
+
+/**
+ * Travel checks for every day: offline estimates straight away, then directions-based ones
+ * once the configured provider (if any) has answered. Lookups are skipped while streaming.
+ */
+export const useTravelChecks = (days: DailyPlan[], isStreaming: boolean): TransitionCheck[][] => {
+  const offlineChecks = useMemo(() => days.map(checkDayTravel), [days]);
+  const [refined, setRefined] = useState<{ source: TransitionCheck[][]; checks: TransitionCheck[][] } | null>(null);
+
+  useEffect(() => {
+    const provider = getDirectionsProvider();
+    if (!provider || isStreaming) return;
+
+    const controller = new AbortController();
+    Promise.all(days.map((day, dayIndex) => refineDayTravel(day, offlineChecks[dayIndex], provider, controller.signal)))
+      .then((checks) => setRefined({ source: offlineChecks, checks }))
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.warn("Travel time lookup failed:", error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [days, offlineChecks, isStreaming]);
+
+  // Refined checks are only used for the days they were computed from
+  return refined?.source === offlineChecks ? refined.checks : offlineChecks;
+};
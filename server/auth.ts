@@ -0,0 +1,74 @@
+import { IncomingMessage } from 'http';
+import { adminAuth, adminDb } from './firebaseAdmin';
+import { verifyPasscode } from '../utils/passcode';
+import { Plan } from '../types/plan';
+
+// creatorId is the plan's creator, whose monthly quota the generation counts against
+export type Caller =
+  | { role: 'creator'; uid: string; creatorId: string }
+  | { role: 'member'; memberId: string; creatorId: string };
+
+export interface HttpError extends Error {
+  status: number;
+}
+
+export function httpError(message: string, status: number): HttpError {
+  return Object.assign(new Error(message), { status });
+}
+
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export async function loadPlan(planId: string): Promise<Plan> {
+  const planDoc = await adminDb.collection('plans').doc(planId).get();
+  if (!planDoc.exists) {
+    throw httpError('Plan not found', 404);
+  }
+  return { id: planDoc.id, ...planDoc.data() } as Plan;
+}
+
+/**
+ * Checks that the caller may generate for the plan.
+ * Creators send a Firebase ID token; members (who sign in with a passcode, not Firebase Auth)
+ * send their member ID and passcode, which are checked against the stored hash.
+ * Anyone can create a member doc for any plan, so a member is only trusted once they're listed
+ * in plan.memberIds, which the security rules only let the creator write.
+ */
+export async function authorizeCaller(req: IncomingMessage, plan: Plan): Promise<Caller> {
+
+  const authorization = getHeader(req, 'authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    let uid: string;
+    try {
+      const decoded = await adminAuth.verifyIdToken(authorization.slice('Bearer '.length));
+      uid = decoded.uid;
+    } catch {
+      throw httpError('Invalid or expired sign-in. Please sign in again.', 401);
+    }
+    if (uid !== plan.creatorId) {
+      throw httpError('Only the plan creator or its members can generate itineraries', 403);
+    }
+    return { role: 'creator', uid, creatorId: plan.creatorId };
+  }
+
+  const memberId = getHeader(req, 'x-member-id');
+  const passcode = getHeader(req, 'x-member-passcode');
+  if (memberId && passcode) {
+    if (!(plan.memberIds || []).includes(memberId)) {
+      throw httpError('Only the plan creator or its members can generate itineraries', 403);
+    }
+    const memberDoc = await adminDb.collection('members').doc(memberId).get();
+    const member = memberDoc.data();
+    if (!member || member.planId !== plan.id) {
+      throw httpError('Only the plan creator or its members can generate itineraries', 403);
+    }
+    if (!(await verifyPasscode(passcode, member.passcodeHash))) {
+      throw httpError('Incorrect passcode', 401);
+    }
+    return { role: 'member', memberId, creatorId: plan.creatorId };
+  }
+
+  throw httpError('Authentication required', 401);
+}
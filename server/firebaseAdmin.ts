@@ -0,0 +1,14 @@
+import { initializeApp, getApps, App } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+/**
+ * Uses Application Default Credentials (the Cloud Run service account in production,
+ * GOOGLE_APPLICATION_CREDENTIALS locally)
+ */
+const app: App = getApps()[0] || initializeApp({
+  projectId: process.env.FIREBASE_PROJECT_ID,
+});
+
+export const adminAuth = getAuth(app);
+export const adminDb = getFirestore(app);
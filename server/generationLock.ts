@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { Caller, httpError } from './auth';
+import { toGenerationState, isGenerationActive, describeGeneration } from '../utils/generationState';
+
+/**
+ * Checks the plan's generation lock (see services/firebase/generationLock) before an itinerary or day generation.
+ * The app claims the lock itself so it also covers saving the result, and passes its lock ID along;
+ * any other caller gets a lock claimed here, which must be released with releaseServerLock.
+ * Returns the ID of a lock claimed here, or null when the caller already holds it.
+ * Throws a 409 while someone else's generation is running.
+ */
+export async function claimServerLock(
+  planId: string,
+  caller: Caller,
+  claim: { kind: 'itinerary' | 'day'; dayIndex: number | null },
+  callerLockId: string | null
+): Promise<string | null> {
+  const planRef = adminDb.collection('plans').doc(planId);
+  const lockId = `server:${randomUUID()}`;
+
+  return adminDb.runTransaction(async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    if (!planDoc.exists) {
+      throw httpError('Plan not found', 404);
+    }
+
+    const current = toGenerationState(planDoc.data()!.generation);
+    if (isGenerationActive(current)) {
+      if (callerLockId && current.lockId === callerLockId) return null;
+      throw httpError(`${describeGeneration(current)} Please wait for it to finish.`, 409);
+    }
+
+    transaction.update(planRef, {
+      generation: {
+        status: 'generating',
+        kind: claim.kind,
+        dayIndex: claim.dayIndex,
+        lockId,
+        startedById: caller.role === 'creator' ? caller.uid : caller.memberId,
+        startedByName: caller.role === 'creator' ? 'The trip creator' : 'A trip member',
+        startedAt: FieldValue.serverTimestamp(),
+        finishedAt: null,
+        error: null,
+      },
+    });
+    return lockId;
+  });
+}
+
+/**
+ * Releases a lock claimed by claimServerLock; does nothing if it has since expired and been claimed by someone else
+ */
+export async function releaseServerLock(planId: string, lockId: string, error: string | null = null): Promise<void> {
+  const planRef = adminDb.collection('plans').doc(planId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    const current = planDoc.data()?.generation;
+    if (current?.lockId !== lockId) return;
+
+    transaction.update(planRef, {
+      generation: {
+        ...current,
+        status: error ? 'failed' : 'idle',
+        lockId: null,
+        finishedAt: FieldValue.serverTimestamp(),
+        error,
+      },
+    });
+  });
+}
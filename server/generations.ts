@@ -0,0 +1,63 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * In-memory copies of recent itinerary and day outputs, so a repair can only ask the model to fix
+ * text this server generated, and only a few times per generation.
+ * Like the rate limiter, this is per server instance: a repair has to reach the instance that ran the generation.
+ */
+export const MAX_REPAIRS_PER_GENERATION = 2; // Matches the client's maxRepairAttempts
+const GENERATION_TTL_MS = 15 * 60 * 1000;
+
+export interface StoredGeneration {
+  planId: string;
+  kind: 'itinerary' | 'day'; // What the text is, so its validation errors can be recomputed
+  text: string;
+  budget: { repairsLeft: number }; // Shared by a generation and every repair of it
+  expiresAt: number;
+}
+
+const generations = new Map<string, StoredGeneration>();
+
+function sweepExpired(now: number) {
+  for (const [id, generation] of generations) {
+    if (generation.expiresAt <= now) {
+      generations.delete(id);
+    }
+  }
+}
+
+/**
+ * Stores an output and returns the id a repair of it refers to.
+ * Pass the parent of a repair so the repaired text shares the original generation's budget.
+ */
+export function rememberGeneration(
+  planId: string,
+  kind: StoredGeneration['kind'],
+  text: string,
+  parent: StoredGeneration | null = null,
+  now: number = Date.now()
+): string {
+  sweepExpired(now);
+  const id = randomUUID();
+  generations.set(id, {
+    planId,
+    kind,
+    text,
+    budget: parent ? parent.budget : { repairsLeft: MAX_REPAIRS_PER_GENERATION },
+    expiresAt: now + GENERATION_TTL_MS,
+  });
+  return id;
+}
+
+/**
+ * Returns the stored output a repair refers to and spends one repair from its budget,
+ * or null when it's unknown, expired, from another plan or out of repairs
+ */
+export function claimRepair(parentId: string, planId: string, now: number = Date.now()): StoredGeneration | null {
+  const generation = generations.get(parentId);
+  if (!generation || generation.planId !== planId || generation.expiresAt <= now || generation.budget.repairsLeft <= 0) {
+    return null;
+  }
+  generation.budget.repairsLeft -= 1;
+  return generation;
+}
@@ -0,0 +1,279 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { geminiProvider } from '../services/providers/geminiProvider';
+import { fixtureProvider } from '../services/providers/fixtureProvider';
+import { ItineraryProvider, GenerationRequest, GenerationResult } from '../services/providers/types';
+import { authorizeCaller, loadPlan, httpError, Caller } from './auth';
+import { parsePromptSpec, buildGenerationRequest } from './prompts';
+import { rememberGeneration, StoredGeneration } from './generations';
+import { claimServerLock, releaseServerLock } from './generationLock';
+import { checkRateLimit } from './rateLimit';
+import { reserveMonthlyGeneration, releaseMonthlyGeneration, recordGenerationUsage, QuotaReservation } from './usage';
+import { isAbortError } from '../utils/abort';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const RATE_LIMIT_MAX = Number(process.env.GENERATION_RATE_LIMIT) || 10;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+// Generations per creator per calendar month (UTC), across all their plans; 0 disables the quota
+const MONTHLY_QUOTA = process.env.GENERATION_MONTHLY_QUOTA === undefined ? 100 : Number(process.env.GENERATION_MONTHLY_QUOTA) || 0;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const PROVIDERS: Record<string, ItineraryProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [fixtureProvider.id]: fixtureProvider,
+};
+
+const provider = PROVIDERS[process.env.ITINERARY_PROVIDER || geminiProvider.id];
+if (!provider) {
+  throw new Error(`Unknown ITINERARY_PROVIDER "${process.env.ITINERARY_PROVIDER}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+}
+
+function setCorsHeaders(res: ServerResponse) {
+  if (!ALLOWED_ORIGIN) return;
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Member-Id, X-Member-Passcode');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw httpError('Request body is too large', 413);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw httpError('Request body must be JSON', 400);
+  }
+}
+
+function parsePlanId(body: any): string {
+  if (!body || typeof body.planId !== 'string' || !body.planId) {
+    throw httpError('planId is required', 400);
+  }
+  return body.planId;
+}
+
+/**
+ * Keeps itinerary and day outputs (and repairs of them) so they can be repaired; alternatives are never repaired
+ */
+function rememberForRepair(request: GenerationRequest, parent: StoredGeneration | null, result: GenerationResult): string | null {
+  if (parent) {
+    return rememberGeneration(request.planId, parent.kind, result.text, parent);
+  }
+  if (request.kind === 'itinerary' || request.kind === 'day') {
+    return rememberGeneration(request.planId, request.kind, result.text);
+  }
+  return null;
+}
+
+/**
+ * Usage is recorded after the response is generated; a failure to record is logged rather than
+ * failing a generation the caller has already waited for
+ */
+async function recordUsage(request: GenerationRequest, caller: Caller, reservation: QuotaReservation | null, result: GenerationResult) {
+  try {
+    const costUsd = await recordGenerationUsage({
+      planId: request.planId,
+      creatorId: caller.creatorId,
+      requestedBy: caller.role,
+      kind: request.kind,
+      model: result.model,
+      usage: result.usage,
+      quota: MONTHLY_QUOTA,
+      period: reservation?.period,
+    });
+    console.log(`Recorded ${request.kind} usage for plan ${request.planId}: ~$${costUsd.toFixed(4)}`);
+  } catch (error) {
+    console.error('Failed to record generation usage:', error);
+  }
+}
+
+// A generation that fails or is cancelled gives its reserved quota back
+async function releaseReservation(caller: Caller, reservation: QuotaReservation | null) {
+  if (!reservation) return;
+  try {
+    await releaseMonthlyGeneration(caller.creatorId, reservation.period);
+  } catch (error) {
+    console.error('Failed to release a reserved generation:', error);
+  }
+}
+
+/**
+ * POST /api/generate
+ * Body: { planId, spec: PromptSpec, lockId?, stream? }. The prompt is rendered here from the plan document.
+ * lockId is the plan's generation lock, when the caller already holds it (see server/generationLock.ts).
+ * Without streaming, responds with { text, sources, model, usage, generationId }.
+ * With streaming, responds with NDJSON lines: { type: 'text', text } for each new chunk of text,
+ * { type: 'reset' } when a retried model call starts over (discard the text so far),
+ * then { type: 'done', text, sources, model, usage, generationId } with the full final text, or { type: 'error', message }.
+ */
+async function handleGenerate(req: IncomingMessage, res: ServerResponse) {
+  const body = await readJsonBody(req);
+  const planId = parsePlanId(body);
+  const spec = parsePromptSpec(body.spec);
+
+  const plan = await loadPlan(planId);
+  const caller = await authorizeCaller(req, plan);
+  const { request, parent } = buildGenerationRequest(plan, spec);
+
+  // Itinerary and day generations hold the plan's generation lock, so a second caller can't race the running one
+  const serverLockId = spec.kind === 'itinerary' || spec.kind === 'day'
+    ? await claimServerLock(
+      planId,
+      caller,
+      { kind: spec.kind, dayIndex: spec.kind === 'day' ? spec.dayIndex : null },
+      typeof body.lockId === 'string' ? body.lockId : null
+    )
+    : null;
+
+  try {
+    await runGeneration(res, request, parent, caller, body.stream === true);
+  } finally {
+    if (serverLockId) {
+      await releaseServerLock(planId, serverLockId).catch((error) => {
+        console.error('Failed to release the generation lock:', error);
+      });
+    }
+  }
+}
+
+async function runGeneration(
+  res: ServerResponse,
+  request: GenerationRequest,
+  parent: StoredGeneration | null,
+  caller: Caller,
+  stream: boolean
+) {
+  // Repairs are part of the generation that triggered them, so instead of counting against the limits
+  // they spend that generation's repair budget (see server/generations.ts); their tokens are still recorded
+  let reservation: QuotaReservation | null = null;
+  if (request.kind !== 'repair') {
+    const quota = await reserveMonthlyGeneration(caller.creatorId, MONTHLY_QUOTA);
+    if (!quota.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil((quota.resetsAt.getTime() - Date.now()) / 1000)));
+      const resetDate = quota.resetsAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+      const who = caller.role === 'creator' ? 'You have' : 'The trip creator has';
+      throw httpError(`${who} used all ${MONTHLY_QUOTA} itinerary generations for this month. The quota resets on ${resetDate}.`, 429);
+    }
+    reservation = quota;
+
+    const limit = checkRateLimit(request.planId, RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS);
+    if (!limit.allowed) {
+      await releaseReservation(caller, reservation);
+      res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+      const minutes = Math.ceil(limit.retryAfterSeconds / 60);
+      throw httpError(`This plan has reached its limit of ${RATE_LIMIT_MAX} generations per hour. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`, 429);
+    }
+  }
+
+  // The client closing the connection (e.g. the creator cancelling) stops the model call and any retries
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      abortController.abort();
+    }
+  });
+
+  if (!stream) {
+    let result: GenerationResult;
+    try {
+      result = await provider.generate(request, abortController.signal);
+    } catch (error) {
+      await releaseReservation(caller, reservation);
+      throw error;
+    }
+    await recordUsage(request, caller, reservation, result);
+    sendJson(res, 200, { ...result, generationId: rememberForRepair(request, parent, result) });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let sentText = '';
+  try {
+    const result = await provider.generateStream(request, (text) => {
+      // Providers report the accumulated text; only send what's new
+      // A retry starts again from empty text, so the client has to drop what the failed attempt sent
+      if (!text.startsWith(sentText)) {
+        res.write(JSON.stringify({ type: 'reset' }) + '\n');
+        sentText = '';
+      }
+      if (text.length <= sentText.length) return;
+      res.write(JSON.stringify({ type: 'text', text: text.slice(sentText.length) }) + '\n');
+      sentText = text;
+    }, abortController.signal);
+    await recordUsage(request, caller, reservation, result);
+    const generationId = rememberForRepair(request, parent, result);
+    res.write(JSON.stringify({ type: 'done', text: result.text, sources: result.sources, model: result.model, usage: result.usage, generationId }) + '\n');
+  } catch (error: any) {
+    await releaseReservation(caller, reservation);
+    if (isAbortError(error)) {
+      console.log(`Streaming ${request.kind} generation for plan ${request.planId} cancelled by the client`);
+      res.end();
+      return;
+    }
+    res.write(JSON.stringify({ type: 'error', message: error?.message || 'Failed to generate itinerary. Please try again.' }) + '\n');
+  }
+  res.end();
+}
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(res);
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('healthy\n');
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/api/generate') {
+      await handleGenerate(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      // Nobody is listening for a response any more
+      console.log('Generation cancelled by the client');
+      res.end();
+      return;
+    }
+    const status = typeof error?.status === 'number' ? error.status : 500;
+    if (status === 500) {
+      console.error('Generation request failed:', error);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(res, status, { error: error?.message || 'Failed to generate itinerary. Please try again.' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Generation server listening on port ${PORT} (provider: ${provider.id})`);
+});
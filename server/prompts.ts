@@ -0,0 +1,145 @@
+import { GenerationRequest, PromptSpec } from '../services/providers/types';
+import { PROMPT_TEMPLATES } from '../services/prompts/registry';
+import { renderRepairPrompt } from '../services/prompts/repair';
+import { PromptTemplate, PromptKind } from '../services/prompts/types';
+import { Plan } from '../types/plan';
+import { getTripDays, getTripDayCount, isTripTooLong, MAX_TRIP_DAYS } from '../utils/tripDates';
+import { getPinnedItems } from '../utils/pinnedItems';
+import { checkItineraryConstraints } from '../utils/checkConstraints';
+import { parseAndValidateItinerary, parseAndValidateDailyPlan } from '../utils/validateItinerary';
+import { DEFAULT_LANGUAGE } from '../utils/languages';
+import { httpError } from './auth';
+import { claimRepair, StoredGeneration } from './generations';
+
+const MAX_ALTERNATIVES = 5;
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Checks the shape of the spec in a request body; what it refers to is checked against the plan in buildGenerationRequest
+ */
+export function parsePromptSpec(spec: any): PromptSpec {
+  switch (spec?.kind) {
+    case 'itinerary':
+      if (typeof spec.template !== 'string') break;
+      return { kind: 'itinerary', template: spec.template };
+    case 'day':
+      if (typeof spec.template !== 'string' || !isIndex(spec.dayIndex)) break;
+      return {
+        kind: 'day',
+        template: spec.template,
+        dayIndex: spec.dayIndex,
+        issues: Array.isArray(spec.issues) ? spec.issues.filter((issue: unknown) => typeof issue === 'string') : [],
+      };
+    case 'alternatives':
+      if (typeof spec.template !== 'string' || !isIndex(spec.dayIndex) || !isIndex(spec.itemIndex)) break;
+      return {
+        kind: 'alternatives',
+        template: spec.template,
+        dayIndex: spec.dayIndex,
+        itemIndex: spec.itemIndex,
+        count: Math.min(MAX_ALTERNATIVES, Math.max(1, Number.isInteger(spec.count) ? spec.count : 3)),
+      };
+    case 'repair':
+      if (typeof spec.parentId !== 'string') break;
+      return { kind: 'repair', parentId: spec.parentId };
+  }
+  throw httpError('spec is missing or invalid', 400);
+}
+
+// Only registered templates are rendered, and only for their own kind of generation
+function getTemplate<K extends PromptKind>(kind: K, id: string): PromptTemplate<K> {
+  const template = PROMPT_TEMPLATES[id];
+  if (!template || template.kind !== kind) {
+    throw httpError(`Unknown ${kind} prompt template "${id}"`, 400);
+  }
+  return template as PromptTemplate<K>;
+}
+
+function requireItinerary(plan: Plan) {
+  if (!plan.itinerary) {
+    throw httpError('This plan has no itinerary yet', 400);
+  }
+  return plan.itinerary;
+}
+
+/**
+ * Renders the prompt for a spec from the plan document, the same way the client's geminiService does.
+ * Nothing from the request reaches the model except template ids, indexes, a clamped count and,
+ * for day regenerations, issues that match the day's actual constraint violations.
+ * For repairs, also returns the stored generation being repaired (its budget has already been spent).
+ */
+export function buildGenerationRequest(plan: Plan, spec: PromptSpec): { request: GenerationRequest; parent: StoredGeneration | null } {
+  const planId = plan.id;
+  const common = {
+    destination: plan.destination,
+    tripDates: plan.tripDates,
+    groupVibe: plan.groupVibe || '',
+    mustDoList: plan.mustDoList || '',
+    vetoList: plan.vetoList || '',
+    constraints: plan.constraints || [],
+    language: plan.language || DEFAULT_LANGUAGE,
+    baseHotel: plan.selectedHotel || null,
+  };
+
+  switch (spec.kind) {
+    case 'itinerary': {
+      if (isTripTooLong(plan.startDate, plan.endDate)) {
+        throw httpError(`This trip is longer than ${MAX_TRIP_DAYS} days, the most an itinerary can cover`, 400);
+      }
+      const prompt = getTemplate('itinerary', spec.template).render({
+        ...common,
+        tripDays: getTripDays(plan.startDate, plan.endDate),
+        pinnedItems: getPinnedItems(plan.itinerary),
+      });
+      return { request: { planId, kind: 'itinerary', prompt, grounded: true, spec }, parent: null };
+    }
+    case 'day': {
+      const itinerary = requireItinerary(plan);
+      if (!itinerary.dailyItinerary[spec.dayIndex]) {
+        throw httpError(`Day ${spec.dayIndex + 1} does not exist in this itinerary`, 400);
+      }
+      const violations = new Set(
+        checkItineraryConstraints(itinerary, common.constraints, common.mustDoList, common.vetoList).violations
+          .filter((violation) => violation.dayIndex === spec.dayIndex)
+          .map((violation) => violation.message)
+      );
+      const prompt = getTemplate('day', spec.template).render({
+        ...common,
+        itinerary,
+        dayIndex: spec.dayIndex,
+        issues: spec.issues.filter((issue) => violations.has(issue)),
+      });
+      return { request: { planId, kind: 'day', prompt, grounded: true, spec }, parent: null };
+    }
+    case 'alternatives': {
+      const itinerary = requireItinerary(plan);
+      if (!itinerary.dailyItinerary[spec.dayIndex]?.items[spec.itemIndex]) {
+        throw httpError('This item no longer exists in the itinerary', 400);
+      }
+      const prompt = getTemplate('alternatives', spec.template).render({
+        ...common,
+        itinerary,
+        dayIndex: spec.dayIndex,
+        itemIndex: spec.itemIndex,
+        count: spec.count,
+      });
+      return { request: { planId, kind: 'alternatives', prompt, grounded: true, spec }, parent: null };
+    }
+    case 'repair': {
+      const parent = claimRepair(spec.parentId, planId);
+      if (!parent) {
+        throw httpError('This generation cannot be repaired again. Please generate it again.', 409);
+      }
+      // The errors are recomputed rather than taken from the request, with the same checks the client ran
+      const result = parent.kind === 'itinerary'
+        ? parseAndValidateItinerary(parent.text, getTripDayCount(plan.startDate, plan.endDate))
+        : parseAndValidateDailyPlan(parent.text);
+      if (result.valid) {
+        throw httpError('This generation is already valid and does not need a repair', 400);
+      }
+      const prompt = renderRepairPrompt(parent.text, result.errors);
+      return { request: { planId, kind: 'repair', prompt, grounded: false, spec }, parent };
+    }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * In-memory sliding-window rate limiter keyed by plan ID.
+ * Limits are per server instance, which is enough to stop a single plan from burning quota;
+ * run one instance (or move this to Firestore) if limits must hold across instances.
+ */
+const requestLog = new Map<string, number[]>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export function checkRateLimit(
+  key: string,
+  maxRequests: number,
+  windowMs: number,
+  now: number = Date.now()
+): RateLimitResult {
+  const recent = (requestLog.get(key) || []).filter((timestamp) => now - timestamp < windowMs);
+
+  if (recent.length >= maxRequests) {
+    requestLog.set(key, recent);
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000),
+    };
+  }
+
+  recent.push(now);
+  requestLog.set(key, recent);
+  return { allowed: true, retryAfterSeconds: 0 };
+}
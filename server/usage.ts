@@ -0,0 +1,128 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { GenerationKind } from '../services/providers/types';
+import { GenerationUsage } from '../types/usage';
+import {
+  EMPTY_USAGE,
+  estimateGenerationCost,
+  getUsagePeriod,
+  getNextPeriodStart,
+} from '../utils/generationUsage';
+
+export interface QuotaReservation {
+  allowed: boolean;
+  used: number; // Generations this month before this one
+  resetsAt: Date;
+  period: string; // Month the generation was counted in, so recording and releasing use the same one
+}
+
+function getMonthlyUsageRef(creatorId: string, period: string) {
+  return adminDb.collection('users').doc(creatorId).collection('usage').doc(period);
+}
+
+/**
+ * Counts a generation against the creator's monthly quota before it runs, in a transaction,
+ * so concurrent requests can't all pass the check and overrun the quota.
+ * Generations by members count against the creator of the plan.
+ * A quota of 0 means unlimited. Release the reservation if the generation doesn't complete.
+ */
+export async function reserveMonthlyGeneration(
+  creatorId: string,
+  quota: number,
+  now: Date = new Date()
+): Promise<QuotaReservation> {
+  const resetsAt = getNextPeriodStart(now);
+  const period = getUsagePeriod(now);
+  const ref = getMonthlyUsageRef(creatorId, period);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const used = snapshot.data()?.generations || 0;
+    if (quota > 0 && used >= quota) {
+      return { allowed: false, used, resetsAt, period };
+    }
+
+    transaction.set(
+      ref,
+      {
+        generations: FieldValue.increment(1),
+        period,
+        quota: quota > 0 ? quota : null,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return { allowed: true, used, resetsAt, period };
+  });
+}
+
+/**
+ * Gives back a reserved generation that failed or was cancelled, so it doesn't use up the quota
+ */
+export async function releaseMonthlyGeneration(creatorId: string, period: string): Promise<void> {
+  await getMonthlyUsageRef(creatorId, period).set(
+    { generations: FieldValue.increment(-1), updatedAt: FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+}
+
+export interface UsageRecordData {
+  planId: string;
+  creatorId: string;
+  requestedBy: 'creator' | 'member';
+  kind: GenerationKind;
+  model: string;
+  usage: GenerationUsage | null;
+  quota: number;
+  period?: string; // From the generation's QuotaReservation; repairs have none and use the current month
+}
+
+/**
+ * Stores a request's usage in plans/{planId}/usage and adds it to the plan's usageTotals
+ * and the creator's monthly totals. Repairs add tokens and cost but don't count as a generation.
+ * The monthly generation count was already taken by reserveMonthlyGeneration, so only tokens and cost
+ * are added to it here.
+ * Returns the estimated cost in USD.
+ */
+export async function recordGenerationUsage(data: UsageRecordData): Promise<number> {
+  const usage = data.usage || EMPTY_USAGE;
+  const costUsd = estimateGenerationCost(data.model, usage);
+  const generations = data.kind === 'repair' ? 0 : 1;
+  const period = data.period || getUsagePeriod();
+
+  const tokenIncrements = {
+    promptTokens: FieldValue.increment(usage.promptTokens),
+    candidateTokens: FieldValue.increment(usage.candidateTokens),
+    toolTokens: FieldValue.increment(usage.toolTokens),
+    thoughtsTokens: FieldValue.increment(usage.thoughtsTokens),
+    groundingCalls: FieldValue.increment(usage.groundingCalls),
+    costUsd: FieldValue.increment(costUsd),
+  };
+  const increments = { generations: FieldValue.increment(generations), ...tokenIncrements };
+
+  const planRef = adminDb.collection('plans').doc(data.planId);
+  const batch = adminDb.batch();
+
+  batch.create(planRef.collection('usage').doc(), {
+    ...usage,
+    kind: data.kind,
+    model: data.model,
+    costUsd,
+    requestedBy: data.requestedBy,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  batch.set(planRef, { usageTotals: increments }, { merge: true });
+  batch.set(
+    getMonthlyUsageRef(data.creatorId, period),
+    {
+      ...tokenIncrements,
+      period,
+      quota: data.quota > 0 ? data.quota : null,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  await batch.commit();
+  return costUsd;
+}
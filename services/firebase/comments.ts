@@ -0,0 +1,73 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  query,
+  orderBy,
+  serverTimestamp,
+  Timestamp,
+  onSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './config';
+import { CommentAuthor, PlanComment } from '../../types/plan';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+function commentsCollection(planId: string) {
+  return collection(db, 'plans', planId, 'comments');
+}
+
+function toPlanComment(id: string, data: DocumentData): PlanComment {
+  return {
+    id,
+    threadKey: data.threadKey,
+    authorId: data.authorId,
+    authorName: data.authorName || 'Someone',
+    authorRole: data.authorRole || 'member',
+    text: data.text || '',
+    // A just-posted comment has no server timestamp until the write lands
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+  };
+}
+
+/**
+ * Post a comment to a place's thread
+ */
+export async function addComment(
+  planId: string,
+  threadKey: string,
+  author: CommentAuthor,
+  text: string
+): Promise<void> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Comment is empty');
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  await setDoc(doc(commentsCollection(planId)), {
+    threadKey,
+    authorId: author.id,
+    authorName: author.name,
+    authorRole: author.role,
+    text: trimmed,
+    createdAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Subscribe to every comment on a plan, oldest first (real-time)
+ */
+export function subscribeToPlanComments(
+  planId: string,
+  callback: (comments: PlanComment[]) => void
+): () => void {
+  const q = query(commentsCollection(planId), orderBy('createdAt', 'asc'));
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs.map((commentDoc) => toPlanComment(commentDoc.id, commentDoc.data())));
+  });
+}
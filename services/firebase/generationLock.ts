@@ -0,0 +1,77 @@
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { auth, db } from './config';
+import { toGenerationState, isGenerationActive, describeGeneration } from '../../utils/generationState';
+
+// Shared with the generation server, which checks the same lock
+export { IDLE_GENERATION, toGenerationState, isGenerationActive, describeGeneration } from '../../utils/generationState';
+
+/**
+ * Claim the plan's generation lock
+ * Throws if another generation is already running; returns the lock ID to release it with.
+ * Pass the lock ID with the generation request: the server turns away generations from anyone not holding the lock.
+ */
+export async function claimGenerationLock(
+  planId: string,
+  claim: { kind: 'itinerary' | 'day'; dayIndex?: number; startedByName: string }
+): Promise<string> {
+  const planRef = doc(db, 'plans', planId);
+  const lockId = `${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 10)}`;
+
+  await runTransaction(db, async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    if (!planDoc.exists()) {
+      throw new Error('Plan not found');
+    }
+
+    const current = toGenerationState(planDoc.data().generation);
+    if (isGenerationActive(current)) {
+      throw new Error(`${describeGeneration(current)} Please wait for it to finish.`);
+    }
+
+    transaction.update(planRef, {
+      generation: {
+        status: 'generating',
+        kind: claim.kind,
+        dayIndex: claim.dayIndex ?? null,
+        lockId,
+        startedById: auth.currentUser?.uid || null,
+        startedByName: claim.startedByName,
+        startedAt: serverTimestamp(),
+        finishedAt: null,
+        error: null,
+      },
+    });
+  });
+
+  return lockId;
+}
+
+/**
+ * Release the lock once the generation has finished, failed or been cancelled
+ * Does nothing if the lock has since expired and been claimed by someone else
+ */
+export async function releaseGenerationLock(
+  planId: string,
+  lockId: string,
+  error: string | null = null
+): Promise<void> {
+  const planRef = doc(db, 'plans', planId);
+
+  await runTransaction(db, async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    if (!planDoc.exists()) return;
+
+    const current = planDoc.data().generation;
+    if (current?.lockId !== lockId) return;
+
+    transaction.update(planRef, {
+      generation: {
+        ...current,
+        status: error ? 'failed' : 'idle',
+        lockId: null,
+        finishedAt: serverTimestamp(),
+        error,
+      },
+    });
+  });
+}
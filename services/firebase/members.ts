@@ -77,15 +77,13 @@ export async function createMember(
   // This is non-blocking - if it fails, member creation still succeeds
   try {
     const existingMembers = await getPlanMembers(memberData.planId);
-    const allPreferences = [
-      ...existingMembers.map((m) => m.preferences),
-      memberData.preferences, // Include the new member's preferences
+    const allMembers = [
+      ...existingMembers.filter((m) => m.id !== memberId),
+      // Include the new member's preferences
+      { id: memberId, name: memberData.name, preferences: memberData.preferences },
     ];
-    
-    // Only update if we have at least one member with preferences
-    if (allPreferences.length > 0) {
-      await updatePlanWithMemberPreferences(memberData.planId, allPreferences);
-    }
+
+    await updatePlanWithMemberPreferences(memberData.planId, allMembers);
   } catch (error) {
     // Log error but don't fail member creation
     // The aggregation can be retried later or done by the creator
@@ -227,14 +225,14 @@ export async function updateMemberPreferences(
 
   // Update plan with aggregated member preferences
   const allMembers = await getPlanMembers(planId);
-  const allPreferences = allMembers.map((m) => {
+  const updatedMembers = allMembers.map((m) => {
     // Use updated preferences for this member
     if (m.id === memberId) {
-      return preferences;
+      return { ...m, preferences };
     }
-    return m.preferences;
+    return m;
   });
-  await updatePlanWithMemberPreferences(planId, allPreferences);
+  await updatePlanWithMemberPreferences(planId, updatedMembers);
 }
 
 /**
@@ -10,12 +10,19 @@ import {
   serverTimestamp,
   Timestamp,
   onSnapshot,
+  runTransaction,
 } from 'firebase/firestore';
 import { db } from './config';
-import { Plan, CreatePlanData } from '../../types/plan';
+import { Plan, CreatePlanData, CreateItineraryVersionData } from '../../types/plan';
+import { MemberPublic } from '../../types/member';
+import { Itinerary, DailyPlan, ItineraryItem, Hotel } from '../../types';
 import { generateInviteCode } from '../../utils/inviteCode';
 import { removeUndefined } from '../../utils/firebase';
-import { aggregateGroupVibe, aggregateMustDo, aggregateVeto } from '../../utils/aggregatePreferences';
+import { aggregateGroupVibe, aggregateConstraints } from '../../utils/aggregatePreferences';
+import { validateItinerary, validateDailyPlan, formatValidationErrors } from '../../utils/validateItinerary';
+import { createItineraryVersion, reserveItineraryVersionId } from './versions';
+import { toGenerationState } from './generationLock';
+import { offsetDayProvenance, offsetItemProvenance, pruneUnreferencedSources, getLinkVerificationStats } from '../../utils/matchSources';
 
 /**
  * Safely converts a Firestore timestamp to a Date object
@@ -79,6 +86,7 @@ export async function createPlan(
   const newPlan: Omit<Plan, 'id'> = {
     creatorId,
     ...planData,
+    constraints: [],
     inviteCode,
     status: 'draft',
     itinerary: null,
@@ -125,6 +133,7 @@ export async function getPlan(planId: string): Promise<Plan | null> {
     ...data,
     createdAt: toDate(data.createdAt),
     updatedAt: toDate(data.updatedAt),
+    generation: toGenerationState(data.generation),
   } as Plan;
 }
 
@@ -149,6 +158,7 @@ export async function getPlanByInviteCode(
     ...data,
     createdAt: toDate(data.createdAt),
     updatedAt: toDate(data.updatedAt),
+    generation: toGenerationState(data.generation),
   } as Plan;
 }
 
@@ -167,6 +177,7 @@ export async function getCreatorPlans(creatorId: string): Promise<Plan[]> {
       ...data,
       createdAt: toDate(data.createdAt),
       updatedAt: toDate(data.updatedAt),
+      generation: toGenerationState(data.generation),
     } as Plan;
   });
 }
@@ -191,25 +202,232 @@ export async function updatePlan(
 
 /**
  * Save itinerary to plan
+ * Refuses to save an itinerary that doesn't match the schema
+ * Every saved itinerary is also stored as a new version, so it can be restored later
  */
 export async function saveItineraryToPlan(
   planId: string,
   itinerary: Plan['itinerary'],
-  sources: Plan['sources']
+  sources: Plan['sources'],
+  versionData: CreateItineraryVersionData
 ): Promise<void> {
+  let currentVersionId: string | null = null;
+
+  if (itinerary) {
+    const validation = validateItinerary(itinerary);
+    if (!validation.valid) {
+      throw new Error(`Refusing to save an invalid itinerary:\n${formatValidationErrors(validation.errors)}`);
+    }
+    const linkVerification = getLinkVerificationStats(
+      itinerary.dailyItinerary.flatMap((day) => day.items),
+      itinerary.recommendedHotels
+    );
+    currentVersionId = await createItineraryVersion(planId, itinerary, sources, versionData, linkVerification);
+  }
+
   await updatePlan(planId, {
     itinerary,
     sources,
+    currentVersionId,
     status: 'active',
   });
 }
 
+/**
+ * Save the creator's manual edits to the itinerary
+ * Edits aren't a generation, so no version is stored; currentVersionId is cleared because the
+ * itinerary no longer matches any stored version
+ */
+export async function saveItineraryEdits(
+  planId: string,
+  itinerary: Itinerary
+): Promise<void> {
+  const validation = validateItinerary(itinerary);
+  if (!validation.valid) {
+    throw new Error(`Refusing to save an invalid itinerary:\n${formatValidationErrors(validation.errors)}`);
+  }
+
+  await updatePlan(planId, {
+    itinerary: validation.itinerary,
+    currentVersionId: null,
+  });
+}
+
+/**
+ * Set (or clear, with null) the hotel the group is based at
+ * Provenance and unverified links point into the current itinerary's sources, so they aren't kept on the copy
+ */
+export async function selectPlanHotel(
+  planId: string,
+  hotel: Hotel | null
+): Promise<void> {
+  await updatePlan(planId, {
+    selectedHotel: hotel
+      ? {
+          name: hotel.name,
+          description: hotel.description,
+          location: hotel.location,
+          googleMapsLink: hotel.googleMapsLink,
+          estimatedCost: hotel.estimatedCost ?? null,
+        }
+      : null,
+  });
+}
+
+/**
+ * Replace a single day of the plan's itinerary, leaving every other day untouched
+ * New grounding sources are appended to the existing ones, and the result is stored as a new version
+ * The day's provenance indexes refer to newSources and are shifted to match
+ * The day is merged into the latest itinerary inside a transaction, so concurrent edits to other days aren't lost,
+ * and the version is only written once that update has committed
+ */
+export async function replaceDayInPlan(
+  planId: string,
+  dayIndex: number,
+  day: DailyPlan,
+  newSources: Plan['sources'],
+  versionData: CreateItineraryVersionData
+): Promise<void> {
+  const validation = validateDailyPlan(day);
+  if (!validation.valid) {
+    throw new Error(`Refusing to save an invalid day:\n${formatValidationErrors(validation.errors)}`);
+  }
+
+  const planRef = doc(db, 'plans', planId);
+  const versionId = reserveItineraryVersionId(planId);
+
+  const { itinerary, sources } = await runTransaction(db, async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    if (!planDoc.exists()) {
+      throw new Error('Plan not found');
+    }
+    const plan = planDoc.data() as Plan;
+    if (!plan.itinerary || !plan.itinerary.dailyItinerary[dayIndex]) {
+      throw new Error('This day no longer exists in the itinerary');
+    }
+
+    const dailyItinerary = [...plan.itinerary.dailyItinerary];
+    dailyItinerary.splice(dayIndex, 1, offsetDayProvenance(validation.dailyPlan!, (plan.sources || []).length));
+
+    const merged = {
+      itinerary: { ...plan.itinerary, dailyItinerary },
+      sources: [...(plan.sources || []), ...newSources],
+    };
+    transaction.update(planRef, {
+      ...removeUndefined(merged),
+      currentVersionId: versionId,
+      updatedAt: serverTimestamp(),
+    });
+    return merged;
+  });
+
+  const linkVerification = getLinkVerificationStats(validation.dailyPlan!.items);
+  await createItineraryVersion(planId, itinerary, sources, versionData, linkVerification, versionId);
+}
+
+/**
+ * Replace a single item of the plan's itinerary, e.g. with a chosen alternative
+ * New grounding sources are appended to the existing ones, and the result is stored as a new version
+ * The item's provenance indexes refer to newSources and are shifted to match; sources no place points at
+ * any more (such as the replaced item's) are then dropped
+ * The item is merged into the latest itinerary inside a transaction, and the version is only written once
+ * that update has committed
+ */
+export async function replaceItemInPlan(
+  planId: string,
+  dayIndex: number,
+  itemIndex: number,
+  item: ItineraryItem,
+  newSources: Plan['sources'],
+  versionData: CreateItineraryVersionData
+): Promise<void> {
+  const planRef = doc(db, 'plans', planId);
+  const versionId = reserveItineraryVersionId(planId);
+
+  const { itinerary, sources } = await runTransaction(db, async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    if (!planDoc.exists()) {
+      throw new Error('Plan not found');
+    }
+    const plan = planDoc.data() as Plan;
+    const day = plan.itinerary?.dailyItinerary[dayIndex];
+    if (!day || !day.items[itemIndex]) {
+      throw new Error('This item no longer exists in the itinerary');
+    }
+
+    const items = [...day.items];
+    items.splice(itemIndex, 1, offsetItemProvenance(item, (plan.sources || []).length));
+    const updatedDay: DailyPlan = { ...day, items };
+
+    const validation = validateDailyPlan(updatedDay);
+    if (!validation.valid) {
+      throw new Error(`Refusing to save an invalid item:\n${formatValidationErrors(validation.errors)}`);
+    }
+
+    const dailyItinerary = [...plan.itinerary!.dailyItinerary];
+    dailyItinerary.splice(dayIndex, 1, validation.dailyPlan!);
+
+    const merged = pruneUnreferencedSources(
+      { ...plan.itinerary!, dailyItinerary },
+      [...(plan.sources || []), ...newSources]
+    );
+    transaction.update(planRef, {
+      ...removeUndefined(merged),
+      currentVersionId: versionId,
+      updatedAt: serverTimestamp(),
+    });
+    return merged;
+  });
+
+  await createItineraryVersion(planId, itinerary, sources, versionData, getLinkVerificationStats([item]), versionId);
+}
+
+/**
+ * Pin or unpin a single item, so regenerations keep it on its day and at its time
+ * Pinning doesn't change what the itinerary says, so no version is stored and currentVersionId is kept
+ * The flag is set on the latest itinerary inside a transaction, so concurrent edits aren't lost
+ */
+export async function setItemPinned(
+  planId: string,
+  dayIndex: number,
+  itemIndex: number,
+  pinned: boolean
+): Promise<void> {
+  const planRef = doc(db, 'plans', planId);
+
+  await runTransaction(db, async (transaction) => {
+    const planDoc = await transaction.get(planRef);
+    if (!planDoc.exists()) {
+      throw new Error('Plan not found');
+    }
+    const plan = planDoc.data() as Plan;
+    const day = plan.itinerary?.dailyItinerary[dayIndex];
+    const item = day?.items[itemIndex];
+    if (!day || !item) {
+      throw new Error('This item no longer exists in the itinerary');
+    }
+
+    const { pinned: _previous, ...unpinned } = item;
+    const items = [...day.items];
+    items.splice(itemIndex, 1, pinned ? { ...unpinned, pinned: true } : unpinned);
+
+    const dailyItinerary = [...plan.itinerary!.dailyItinerary];
+    dailyItinerary.splice(dayIndex, 1, { ...day, items });
+
+    transaction.update(planRef, {
+      itinerary: removeUndefined({ ...plan.itinerary!, dailyItinerary }),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
 /**
  * Update plan with aggregated member preferences
+ * Member must-dos and vetoes become structured constraints attributed to the member
  */
 export async function updatePlanWithMemberPreferences(
   planId: string,
-  memberPreferences: any[]
+  members: Pick<MemberPublic, 'id' | 'name' | 'preferences'>[]
 ): Promise<void> {
   // Get current plan to preserve base values
   const plan = await getPlan(planId);
@@ -218,15 +436,13 @@ export async function updatePlanWithMemberPreferences(
   }
 
   // Aggregate preferences
-  const aggregatedVibe = aggregateGroupVibe(memberPreferences, plan.groupVibe);
-  const aggregatedMustDo = aggregateMustDo(memberPreferences, plan.mustDoList);
-  const aggregatedVeto = aggregateVeto(memberPreferences, plan.vetoList);
+  const aggregatedVibe = aggregateGroupVibe(members.map((member) => member.preferences), plan.groupVibe);
+  const constraints = aggregateConstraints(members, plan.constraints || []);
 
   // Update plan with aggregated values
   await updatePlan(planId, {
     groupVibe: aggregatedVibe,
-    mustDoList: aggregatedMustDo,
-    vetoList: aggregatedVeto,
+    constraints,
   });
 }
 
@@ -251,6 +467,7 @@ export function subscribeToPlan(
       ...data,
       createdAt: toDate(data.createdAt),
       updatedAt: toDate(data.updatedAt),
+      generation: toGenerationState(data.generation),
     } as Plan;
     callback(plan);
   });
@@ -0,0 +1,44 @@
+import { doc, getDoc, DocumentData } from 'firebase/firestore';
+import { db } from './config';
+import { CreatorMonthlyUsage, UsageTotals } from '../../types/usage';
+import { Plan } from '../../types/plan';
+import { getUsagePeriod } from '../../utils/generationUsage';
+
+// Usage documents are written by the generation server only (see server/usage.ts)
+
+function toUsageTotals(data: DocumentData | undefined): UsageTotals {
+  return {
+    generations: data?.generations || 0,
+    promptTokens: data?.promptTokens || 0,
+    candidateTokens: data?.candidateTokens || 0,
+    toolTokens: data?.toolTokens || 0,
+    thoughtsTokens: data?.thoughtsTokens || 0,
+    groundingCalls: data?.groundingCalls || 0,
+    costUsd: data?.costUsd || 0,
+  };
+}
+
+/**
+ * Get a creator's usage across all their plans for one month (defaults to the current month)
+ * Returns zero totals when nothing has been generated that month
+ */
+export async function getCreatorMonthlyUsage(
+  creatorId: string,
+  period: string = getUsagePeriod()
+): Promise<CreatorMonthlyUsage> {
+  const usageDoc = await getDoc(doc(db, 'users', creatorId, 'usage', period));
+  const data = usageDoc.exists() ? usageDoc.data() : undefined;
+
+  return {
+    ...toUsageTotals(data),
+    period,
+    quota: data?.quota ?? null,
+  };
+}
+
+/**
+ * Plan totals as stored on the plan document; older plans have none yet
+ */
+export function getPlanUsageTotals(plan: Plan): UsageTotals {
+  return toUsageTotals(plan.usageTotals);
+}
@@ -0,0 +1,144 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  updateDoc,
+  serverTimestamp,
+  Timestamp,
+  onSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { auth, db } from './config';
+import { ItineraryVersion, CreateItineraryVersionData, LinkVerificationStats } from '../../types/plan';
+import { Itinerary, GroundingChunk } from '../../types';
+import { removeUndefined } from '../../utils/firebase';
+import { validateItinerary, formatValidationErrors } from '../../utils/validateItinerary';
+import { measureItineraryQuality } from '../../utils/itineraryQuality';
+
+function versionsCollection(planId: string) {
+  return collection(db, 'plans', planId, 'versions');
+}
+
+function toItineraryVersion(id: string, data: DocumentData): ItineraryVersion {
+  return {
+    id,
+    kind: data.kind,
+    summary: data.summary || '',
+    itinerary: data.itinerary,
+    sources: data.sources || [],
+    inputs: data.inputs,
+    model: data.model || 'unknown',
+    promptTemplate: data.promptTemplate || null,
+    quality: data.quality || null,
+    linkVerification: data.linkVerification || null,
+    createdBy: data.createdBy || null,
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+  };
+}
+
+/**
+ * Store an immutable snapshot of an itinerary under plans/{planId}/versions
+ * Quality measures are computed here so every version is comparable, whatever created it
+ * linkVerification covers only the places this generation produced, so it's computed by the caller
+ * Pass a versionId from reserveItineraryVersionId to write a version the plan already points at
+ * Returns the new version ID
+ */
+export async function createItineraryVersion(
+  planId: string,
+  itinerary: Itinerary,
+  sources: GroundingChunk[],
+  versionData: CreateItineraryVersionData,
+  linkVerification: LinkVerificationStats | null = null,
+  versionId: string | null = null
+): Promise<string> {
+  const versionRef = versionId ? doc(versionsCollection(planId), versionId) : doc(versionsCollection(planId));
+
+  await setDoc(versionRef, removeUndefined({
+    ...versionData,
+    itinerary,
+    sources,
+    quality: measureItineraryQuality(itinerary, sources, versionData.inputs),
+    linkVerification,
+    createdBy: auth.currentUser?.uid || null,
+    createdAt: serverTimestamp(),
+  }));
+
+  return versionRef.id;
+}
+
+/**
+ * Pick the ID of a version before it's written
+ * Lets a plan update name its new current version and commit first, so a failed update never leaves a stray version
+ */
+export function reserveItineraryVersionId(planId: string): string {
+  return doc(versionsCollection(planId)).id;
+}
+
+/**
+ * Get all versions of a plan's itinerary, newest first
+ */
+export async function getItineraryVersions(planId: string): Promise<ItineraryVersion[]> {
+  const q = query(versionsCollection(planId), orderBy('createdAt', 'desc'));
+  const querySnapshot = await getDocs(q);
+
+  return querySnapshot.docs.map((versionDoc) => toItineraryVersion(versionDoc.id, versionDoc.data()));
+}
+
+/**
+ * Get a single itinerary version
+ */
+export async function getItineraryVersion(
+  planId: string,
+  versionId: string
+): Promise<ItineraryVersion | null> {
+  const versionDoc = await getDoc(doc(versionsCollection(planId), versionId));
+  if (!versionDoc.exists()) {
+    return null;
+  }
+  return toItineraryVersion(versionDoc.id, versionDoc.data());
+}
+
+/**
+ * Subscribe to a plan's itinerary versions, newest first (real-time)
+ */
+export function subscribeToItineraryVersions(
+  planId: string,
+  callback: (versions: ItineraryVersion[]) => void
+): () => void {
+  const q = query(versionsCollection(planId), orderBy('createdAt', 'desc'));
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs.map((versionDoc) => toItineraryVersion(versionDoc.id, versionDoc.data())));
+  });
+}
+
+/**
+ * Make a stored version the plan's current itinerary
+ * The version itself is left untouched, so restoring never loses history
+ */
+export async function restoreItineraryVersion(
+  planId: string,
+  versionId: string
+): Promise<void> {
+  const version = await getItineraryVersion(planId, versionId);
+  if (!version) {
+    throw new Error('Version not found');
+  }
+
+  const validation = validateItinerary(version.itinerary);
+  if (!validation.valid) {
+    throw new Error(`This version can't be restored because its itinerary is invalid:\n${formatValidationErrors(validation.errors)}`);
+  }
+
+  await updateDoc(doc(db, 'plans', planId), {
+    itinerary: validation.itinerary,
+    sources: version.sources,
+    currentVersionId: version.id,
+    status: 'active',
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,59 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+  onSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from './config';
+import { MemberVotes, VoteValue } from '../../types/plan';
+
+function votesCollection(planId: string) {
+  return collection(db, 'plans', planId, 'votes');
+}
+
+function toMemberVotes(id: string, data: DocumentData): MemberVotes {
+  return {
+    memberId: data.memberId || id,
+    memberName: data.memberName || 'Someone',
+    votes: data.votes || {},
+    updatedAt: (data.updatedAt as Timestamp)?.toDate() || new Date(),
+  };
+}
+
+/**
+ * Record a member's vote on a place, or clear it when value is null
+ * Each member has one document, so voting again replaces their previous vote on that place
+ */
+export async function castVote(
+  planId: string,
+  member: { id: string; name: string },
+  voteKey: string,
+  value: VoteValue | null
+): Promise<void> {
+  await setDoc(
+    doc(votesCollection(planId), member.id),
+    {
+      memberId: member.id,
+      memberName: member.name,
+      votes: { [voteKey]: value ?? deleteField() },
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Subscribe to every member's votes on a plan (real-time)
+ */
+export function subscribeToPlanVotes(
+  planId: string,
+  callback: (votes: MemberVotes[]) => void
+): () => void {
+  return onSnapshot(votesCollection(planId), (querySnapshot) => {
+    callback(querySnapshot.docs.map((voteDoc) => toMemberVotes(voteDoc.id, voteDoc.data())));
+  });
+}
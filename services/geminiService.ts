@@ -1,257 +1,267 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { GroundingChunk } from '../types';
+import { GroundingChunk, Itinerary, DailyPlan, ItineraryItem, Hotel, PinnedItem } from '../types';
+import { PlanConstraint } from '../types/plan';
+import { parsePartialItinerary } from '../utils/parsePartialItinerary';
+import { TripDay } from '../utils/tripDates';
+import { DEFAULT_LANGUAGE } from '../utils/languages';
+import { getItineraryProvider } from './providers';
+import { selectPromptTemplate, renderRepairPrompt } from './prompts';
+import {
+    parseAndValidateItinerary,
+    parseAndValidateDailyPlan,
+    parseAndValidateAlternatives,
+    formatValidationErrors,
+    ItineraryValidationError,
+} from '../utils/validateItinerary';
 
-const getRyokoPrompt = (
+export const generateItinerary = async (
+    planId: string,
+    destination: string,
+    tripDates: string,
+    groupVibe: string,
+    mustDoList: string,
+    vetoList: string,
+    constraints: PlanConstraint[] = [],
+    tripDays: TripDay[] = [],
+    language: string = DEFAULT_LANGUAGE,
+    baseHotel: Hotel | null = null,
+    pinnedItems: PinnedItem[] = [],
+    signal?: AbortSignal,
+    lockId: string | null = null
+): Promise<{ itineraryJson: string; sources: GroundingChunk[]; model: string; promptTemplate: string; generationId: string | null }> => {
+    const template = selectPromptTemplate('itinerary', planId);
+    const prompt = template.render({ destination, tripDates, groupVibe, mustDoList, vetoList, constraints, tripDays, language, baseHotel, pinnedItems });
+    const { text, sources, model, generationId } = await getItineraryProvider().generate({
+        planId,
+        kind: 'itinerary',
+        prompt,
+        grounded: true,
+        spec: { kind: 'itinerary', template: template.id },
+        lockId,
+    }, signal);
+    return { itineraryJson: text, sources, model, promptTemplate: template.id, generationId };
+};
+
+/**
+ * Generates a replacement for a single day, using the rest of the itinerary as context
+ * so places aren't repeated and the neighborhood grouping stays consistent.
+ * Pass issues (e.g. constraint violations) to tell the model what the new day has to fix.
+ * With a base hotel, the new day starts and ends near it. The day's pinned items are kept as fixed anchors.
+ * Pass the plan's generation lock ID when the caller holds it, so the server doesn't turn the request away.
+ */
+export const generateDay = async (
+    planId: string,
     destination: string,
     tripDates: string,
     groupVibe: string,
     mustDoList: string,
-    vetoList: string
-) => {
-    return `
-You are 'Ryoko', an elite AI logistics coordinator. Your job is to create a trip itinerary.
-Your entire response MUST be a single, valid JSON object. Do not include any text, markdown formatting, or explanations outside of the JSON structure.
-Here are the trip details:
-Destination: ${destination}
-Trip Dates: ${tripDates}
-Group Vibe: ${groupVibe}
-Must-Do List: ${mustDoList}
-Veto List: ${vetoList}
-CRITICAL DATA SOURCING & JSON STRUCTURE:
-Tool Usage Strategy:
-STEP 1 - Discovery (Google Search Grounding):
-- Use Google Search Grounding FIRST to discover and find the best places (hotels, activities, restaurants, hidden gems) based on the destination, group vibe, must-do list, and requirements.
-- Google Search will help you find places that match user preferences, budget, interests, and dietary restrictions.
-- Use Google Search to research what places are recommended, popular, or match the group's vibe.
+    vetoList: string,
+    constraints: PlanConstraint[],
+    language: string,
+    baseHotel: Hotel | null,
+    itinerary: Itinerary,
+    dayIndex: number,
+    issues: string[] = [],
+    lockId: string | null = null
+): Promise<{ dayJson: string; sources: GroundingChunk[]; model: string; promptTemplate: string; generationId: string | null }> => {
+    if (!itinerary.dailyItinerary[dayIndex]) {
+        throw new Error(`Day ${dayIndex + 1} does not exist in this itinerary`);
+    }
+    const template = selectPromptTemplate('day', planId);
+    const prompt = template.render({ destination, tripDates, groupVibe, mustDoList, vetoList, constraints, language, baseHotel, itinerary, dayIndex, issues });
+    const { text, sources, model, generationId } = await getItineraryProvider().generate({
+        planId,
+        kind: 'day',
+        prompt,
+        grounded: true,
+        spec: { kind: 'day', template: template.id, dayIndex, issues },
+        lockId,
+    });
+    return { dayJson: text, sources, model, promptTemplate: template.id, generationId };
+};
 
-STEP 2 - Location Details (Google Maps Grounding):
-- AFTER finding places with Google Search, use Google Maps Grounding to get detailed place information, exact locations, addresses, and most importantly: Google Maps URIs.
-- Google Maps Grounding provides the official Google Maps URI for each place in the grounding metadata.
-- Use Google Maps Grounding for hotels, key activities, restaurants, and hidden gems to get their exact URIs.
+/**
+ * Suggests alternatives for a single itinerary item in the same time slot and area.
+ * Alternatives that duplicate a place already in the itinerary are dropped.
+ */
+export const generateItemAlternatives = async (
+    planId: string,
+    destination: string,
+    groupVibe: string,
+    vetoList: string,
+    constraints: PlanConstraint[],
+    language: string,
+    itinerary: Itinerary,
+    dayIndex: number,
+    itemIndex: number,
+    count: number = 3
+): Promise<{ alternatives: ItineraryItem[]; sources: GroundingChunk[]; model: string; promptTemplate: string }> => {
+    const item = itinerary.dailyItinerary[dayIndex]?.items[itemIndex];
+    if (!item) {
+        throw new Error('This item no longer exists in the itinerary');
+    }
 
-CRITICAL URI REQUIREMENTS:
-- You MUST extract Google Maps URIs from the grounding metadata returned by Google Maps Grounding tool calls.
-- DO NOT generate, create, or make up Google Maps URLs. ONLY use URIs that come from the grounding metadata.
-- When Google Maps Grounding returns a place, it includes a URI in the grounding metadata. Copy that EXACT URI into the "googleMapsLink" field.
-- If you did not use Google Maps Grounding for a place, or if no URI is available in the grounding metadata, set "googleMapsLink" to null.
-- NEVER construct URLs like "https://maps.google.com/?q=..." manually. Only use URIs from grounding metadata.
+    const template = selectPromptTemplate('alternatives', planId);
+    const prompt = template.render({ destination, groupVibe, vetoList, constraints, language, itinerary, dayIndex, itemIndex, count });
+    const { text, sources, model } = await getItineraryProvider().generate({
+        planId,
+        kind: 'alternatives',
+        prompt,
+        grounded: true,
+        spec: { kind: 'alternatives', template: template.id, dayIndex, itemIndex, count },
+    });
 
-Use Exact Official Names: You MUST use the exact, unmodified, official name from the tools as the value for the "name" or "activity" fields in your JSON. This is critical for accurate location data.
-For Neighborhoods: When you mention a neighborhood or area in the "location" field (e.g., "Shibuya", "Shinjuku"), you can also use Google Maps Grounding to get a Google Maps URI for that neighborhood. If you get a URI for the neighborhood, you can include it in a "locationUri" field (optional). However, if you don't have a neighborhood URI, that's fine - the system can generate one.
-No Generic Places: Generic descriptions like "a cool bakery" are forbidden. You must always use the tools to find and name a specific place like "Gontran Cherrier Shinjuku".
-IMPORTANT: Generate the complete JSON response in a single turn. Do not make excessive tool calls. Use tools efficiently to gather information, then provide the complete itinerary with Google Maps URIs included directly in the JSON.
-Generate a JSON object with the following structure:
-{
-"tripTitle": "A fun, 'Genz' style name for the trip, using emojis.",
-"vibeCheck": "A 2-sentence summary that captures the group's vibe.",
-"packingList": ["A brief, fun packing list based on the destination and dates.", "Include 2-3 items."],
-"recommendedHotels": [
-{
-"name": "Hotel Name 1 (exact name from tool)",
-"description": "Why it's a good fit (location, price, vibe).",
-"location": "General neighborhood or area (from tool).",
-"googleMapsLink": "https://maps.google.com/... (Google Maps URI from grounding metadata, or null if not available)"
-},
-{
-"name": "Hotel Name 2 (exact name from tool)",
-"description": "Brief description.",
-"location": "General neighborhood or area (from tool).",
-"googleMapsLink": "https://maps.google.com/... (Google Maps URI from grounding metadata, or null if not available)"
-}
-],
-"dailyItinerary": [
-{
-"day": "Day 1",
-"title": "A catchy title for the day's plan.",
-"items": [
-{
-"time": "e.g., 10:30 AM",
-"activity": "Name of the activity (exact name from tool).",
-"location": "Neighborhood or area (from tool).",
-"description": "A brief description of what to do.",
-"googleMapsLink": "https://maps.google.com/... (Google Maps URI from grounding metadata, or null if not available)",
-"hiddenGem": {
-"name": "Name of the hidden gem (exact name from tool).",
-"location": "Neighborhood or area (from tool).",
-"description": "Why it's a cool suggestion.",
-"googleMapsLink": "https://maps.google.com/... (Google Maps URI from grounding metadata, or null if not available)"
-}
-},
-{
-"time": "e.g., 1:00 PM",
-"activity": "Ichiran Shibuya (exact name from tool)",
-"location": "Shibuya (from tool)",
-"description": "Enjoy a bowl of classic tonkotsu ramen at this famous spot.",
-"googleMapsLink": "https://maps.google.com/... (Google Maps URI from grounding metadata, or null if not available)"
-}
-]
-}
-]
-}
-CRITICAL LOGIC:
-(Distance/Time): Group activities by neighborhood to be efficient.
-(Vetoes): Strictly follow the "Veto List" (e.g., no plans before 10:00 AM if "no early mornings" is a veto).
-(Creative Suggestions): Include at least one relevant "hiddenGem" suggestion per day. The hiddenGem property is optional.
-`;
-};
+    const result = parseAndValidateAlternatives(text);
+    if (!result.valid) {
+        throw new Error(`Could not read the suggested alternatives. Please try again.\n${formatValidationErrors(result.errors)}`);
+    }
 
-// Retry function with exponential backoff
-const retryWithBackoff = async <T>(
-    fn: () => Promise<T>,
-    maxRetries: number = 3,
-    baseDelay: number = 1000
-): Promise<T> => {
-    let lastError: any;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-            return await fn();
-        } catch (error: any) {
-            lastError = error;
-            
-            // Check if it's a retryable error (503, 429, or network errors)
-            // Handle both direct error objects and nested error structures
-            const errorCode = error?.code || error?.error?.code;
-            const errorStatus = error?.status || error?.error?.status;
-            const errorMessage = error?.message || error?.error?.message || JSON.stringify(error);
-            
-            const isRetryable = 
-                errorCode === 503 || 
-                errorStatus === 'UNAVAILABLE' ||
-                errorCode === 429 ||
-                errorMessage?.includes('503') ||
-                errorMessage?.includes('UNAVAILABLE') ||
-                errorMessage?.includes('network') ||
-                errorMessage?.includes('ECONNRESET');
-            
-            if (!isRetryable || attempt === maxRetries - 1) {
-                throw error;
-            }
-            
-            // Calculate delay with exponential backoff
-            const delay = baseDelay * Math.pow(2, attempt);
-            console.log(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-        }
+    const existingNames = new Set(
+        itinerary.dailyItinerary
+            .flatMap(d => d.items.flatMap(i => i.hiddenGem ? [i.activity, i.hiddenGem.name] : [i.activity]))
+            .map(name => name.trim().toLowerCase())
+    );
+
+    const alternatives = result.alternatives
+        .filter(alternative => !existingNames.has(alternative.activity.trim().toLowerCase()))
+        // Alternatives always sit in the original time slot
+        .map(alternative => ({ ...alternative, time: item.time }))
+        .slice(0, count);
+
+    if (alternatives.length === 0) {
+        throw new Error('The suggested alternatives were all already in the itinerary. Please try again.');
     }
-    
-    throw lastError;
+
+    return { alternatives, sources, model, promptTemplate: template.id };
 };
 
-export const generateItinerary = async (
+/**
+ * Streaming variant of generateItinerary.
+ * Calls onPartial with a renderable preview every time another part of the itinerary
+ * (title, hotels, a day, an item) has fully arrived, then resolves with the same
+ * result shape as generateItinerary once the stream ends.
+ * Aborting the signal cancels the request and rejects with an AbortError (see utils/abort).
+ */
+export const generateItineraryStream = async (
+    planId: string,
     destination: string,
     tripDates: string,
     groupVibe: string,
     mustDoList: string,
-    vetoList: string
-): Promise<{ itineraryJson: string; sources: GroundingChunk[] }> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    vetoList: string,
+    constraints: PlanConstraint[],
+    tripDays: TripDay[],
+    language: string,
+    baseHotel: Hotel | null,
+    pinnedItems: PinnedItem[],
+    onPartial: (partial: Itinerary) => void,
+    signal?: AbortSignal,
+    lockId: string | null = null
+): Promise<{ itineraryJson: string; sources: GroundingChunk[]; model: string; promptTemplate: string; generationId: string | null }> => {
+    const template = selectPromptTemplate('itinerary', planId);
+    const prompt = template.render({ destination, tripDates, groupVibe, mustDoList, vetoList, constraints, tripDays, language, baseHotel, pinnedItems });
 
-    const prompt = getRyokoPrompt(destination, tripDates, groupVibe, mustDoList, vetoList);
+    let lastPreview = '';
+    const { text, sources, model, generationId } = await getItineraryProvider().generateStream(
+        { planId, kind: 'itinerary', prompt, grounded: true, spec: { kind: 'itinerary', template: template.id }, lockId },
+        (accumulated) => {
+            const preview = parsePartialItinerary(accumulated);
+            if (!preview) return;
 
-    console.log('Starting API call...');
-    
-    // Add timeout wrapper to prevent infinite loops
-    const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-            reject(new Error('API call timed out after 120 seconds. The request may be stuck in a tool call loop.'));
-        }, 120000); // 2 minute timeout
-    });
-
-    try {
-        // Wrap API call in retry logic
-        const response = await retryWithBackoff(async () => {
-            const apiCall = ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        contents: prompt,
-        config: {
-                    tools: [
-                        { googleSearch: {} },
-                        { googleMaps: {} }
-                    ],
+            // Only notify when something new has actually completed
+            const serialized = JSON.stringify(preview);
+            if (serialized !== lastPreview) {
+                lastPreview = serialized;
+                onPartial(preview);
+            }
         },
-    });
+        signal
+    );
 
-            return await Promise.race([apiCall, timeoutPromise]);
-        });
-        
-        console.log('API call completed, processing response...');
+    return { itineraryJson: text, sources, model, promptTemplate: template.id, generationId };
+};
 
-        // Extract text content - try response.text first, then fallback to candidates
-        let itineraryJson: string | undefined = response.text;
-        
-        // Fallback: if response.text is undefined, try to extract from candidates
-        if (!itineraryJson && response.candidates?.[0]?.content?.parts) {
-            itineraryJson = response.candidates[0].content.parts
-                .filter((part: any) => part.text)
-                .map((part: any) => part.text)
-                .join('');
-        }
+// Asks the model to fix JSON that failed validation, without grounding tools.
+// parentId is the generation (or previous repair) that produced invalidJson; the server
+// rebuilds the repair prompt from its own copy and limits how many repairs one generation gets.
+const requestJsonRepair = async (
+    planId: string,
+    parentId: string | null,
+    invalidJson: string,
+    errors: ItineraryValidationError[],
+    signal?: AbortSignal
+): Promise<{ json: string; generationId: string | null }> => {
+    const { text, generationId } = await getItineraryProvider().generate({
+        planId,
+        kind: 'repair',
+        prompt: renderRepairPrompt(invalidJson, errors),
+        grounded: false,
+        spec: { kind: 'repair', parentId },
+    }, signal);
+    return { json: text || invalidJson, generationId };
+};
 
-        // Check if we have text content
-        if (!itineraryJson) {
-            console.error('Response structure:', JSON.stringify(response, null, 2));
-            console.error('Candidates:', response.candidates);
-            console.error('Response keys:', Object.keys(response));
-            
-            // Check if there are tool calls that need to be handled
-            const candidate = response.candidates?.[0];
-            if (candidate?.content?.parts?.some((part: any) => part.functionCall)) {
-                throw new Error('The model is making tool calls that require follow-up. This may indicate the tools are being called in a loop. Try using only one tool at a time.');
-            }
-            
-            throw new Error('No text content in API response. The model may have failed to generate content or the response structure is unexpected.');
-        }
+/**
+ * Parses and validates model output, re-prompting the model with the validation errors
+ * when local repairs aren't enough. Throws if the itinerary is still invalid after maxRepairAttempts.
+ * expectedDayCount (from the trip's start and end dates) makes a wrong number of days a validation error.
+ * generationId is the one returned with itineraryJson. Aborting the signal cancels a pending repair request.
+ */
+export const parseItineraryWithRepair = async (
+    planId: string,
+    generationId: string | null,
+    itineraryJson: string,
+    expectedDayCount: number | null = null,
+    signal?: AbortSignal,
+    maxRepairAttempts: number = 2
+): Promise<Itinerary> => {
+    let currentJson = itineraryJson;
+    let currentId = generationId;
+    let result = parseAndValidateItinerary(currentJson, expectedDayCount);
+
+    for (let attempt = 0; !result.valid && attempt < maxRepairAttempts; attempt++) {
+        console.warn(`Itinerary failed validation, asking the model to repair it (attempt ${attempt + 1}/${maxRepairAttempts})`, result.errors);
+        const repair = await requestJsonRepair(planId, currentId, currentJson, result.errors, signal);
+        currentJson = repair.json;
+        currentId = repair.generationId;
+        result = parseAndValidateItinerary(currentJson, expectedDayCount);
+    }
+
+    if (!result.valid) {
+        throw new Error(`The generated itinerary was incomplete or malformed and could not be repaired. Please try again.\n${formatValidationErrors(result.errors)}`);
+    }
+
+    if (result.repairs.length > 0) {
+        console.log('Repaired itinerary JSON:', result.repairs);
+    }
 
-        console.log('Successfully extracted itinerary JSON');
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] || [];
-        console.log(`Found ${sources.length} sources`);
-        
-        // Verify grounding sources
-        const mapsSources = sources.filter(s => s.maps?.uri);
-        const webSources = sources.filter(s => s.web?.uri);
-        console.log(`Grounding verification: ${mapsSources.length} Google Maps sources, ${webSources.length} Google Search sources`);
-        
-        // Log sample URIs from grounding to verify they're being used
-        if (mapsSources.length > 0) {
-            console.log('Sample Google Maps URIs from grounding:', mapsSources.slice(0, 3).map(s => ({
-                title: s.maps?.title,
-                uri: s.maps?.uri
-            })));
-        }
+    return result.itinerary;
+};
+
+/**
+ * Same as parseItineraryWithRepair, for the single-day response of generateDay
+ */
+export const parseDayWithRepair = async (
+    planId: string,
+    generationId: string | null,
+    dayJson: string,
+    maxRepairAttempts: number = 2
+): Promise<DailyPlan> => {
+    let currentJson = dayJson;
+    let currentId = generationId;
+    let result = parseAndValidateDailyPlan(currentJson);
 
-    return { itineraryJson, sources };
-    } catch (error: any) {
-        console.error('Error in generateItinerary:', error);
-        
-        // Extract error details (handle both direct and nested error structures)
-        const errorCode = error?.code || error?.error?.code;
-        const errorStatus = error?.status || error?.error?.status;
-        const errorMessage = error?.message || error?.error?.message || JSON.stringify(error);
-        
-        // Provide user-friendly error messages
-        if (errorCode === 503 || errorStatus === 'UNAVAILABLE' || errorMessage?.includes('503') || errorMessage?.includes('UNAVAILABLE')) {
-            throw new Error('The API service is temporarily unavailable. This is usually a temporary issue. Please try again in a few moments. If the problem persists, check your API key permissions in Google Cloud Console.');
-        }
-        
-        if (errorCode === 429 || errorMessage?.includes('429')) {
-            throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        }
-        
-        if (errorMessage?.includes('API_KEY') || errorMessage?.includes('api key')) {
-            throw new Error('API key is missing or invalid. Please check your environment variables.');
-        }
-        
-        if (errorMessage?.includes('timeout')) {
-            throw new Error('The request took too long. This might be due to high API load. Please try again.');
-        }
-        
-        // Re-throw with original message if we can't categorize it
-        const finalMessage = errorMessage || 'Failed to generate itinerary. Please try again.';
-        throw new Error(finalMessage);
+    for (let attempt = 0; !result.valid && attempt < maxRepairAttempts; attempt++) {
+        console.warn(`Day failed validation, asking the model to repair it (attempt ${attempt + 1}/${maxRepairAttempts})`, result.errors);
+        const repair = await requestJsonRepair(planId, currentId, currentJson, result.errors);
+        currentJson = repair.json;
+        currentId = repair.generationId;
+        result = parseAndValidateDailyPlan(currentJson);
     }
+
+    if (!result.valid) {
+        throw new Error(`The regenerated day was incomplete or malformed and could not be repaired. Please try again.\n${formatValidationErrors(result.errors)}`);
+    }
+
+    return result.dailyPlan;
 };
@@ -0,0 +1,68 @@
+import { PromptTemplate, AlternativesPromptInputs } from './types';
+import { formatConstraints, formatLanguageInstructions } from './sections';
+
+const render = ({
+    destination,
+    groupVibe,
+    vetoList,
+    constraints,
+    language,
+    itinerary,
+    dayIndex,
+    itemIndex,
+    count,
+}: AlternativesPromptInputs) => {
+    // Only vetoes matter when replacing a single stop
+    const vetoes = constraints.filter(constraint => constraint.kind === 'veto');
+    const day = itinerary.dailyItinerary[dayIndex];
+    const item = day.items[itemIndex];
+    const existingPlaces = itinerary.dailyItinerary
+        .flatMap(d => d.items.flatMap(i => i.hiddenGem ? [i.activity, i.hiddenGem.name] : [i.activity]))
+        .concat(itinerary.recommendedHotels.map(hotel => hotel.name));
+
+    return `
+You are 'Ryoko', an elite AI logistics coordinator. A member of the group doesn't like one stop on their trip itinerary and wants alternatives.
+Your entire response MUST be a single, valid JSON object. Do not include any text, markdown formatting, or explanations outside of the JSON structure.
+Destination: ${destination}
+Group Vibe: ${groupVibe}
+Veto List: ${vetoList}
+${vetoes.length > 0 ? formatConstraints(vetoes) : ''}${formatLanguageInstructions(language)}
+The stop being replaced (${day.day}, "${day.title}"):
+- Time: ${item.time}
+- Activity: ${item.activity}
+- Location: ${item.location}
+- Description: ${item.description}
+
+Places already in the itinerary (do NOT suggest any of these):
+${existingPlaces.map(name => `- ${name}`).join('\n')}
+
+CRITICAL RULES:
+- Suggest exactly ${count} different alternatives that fill the same role (e.g. a restaurant for a restaurant) at the same time slot: ${item.time}.
+- Stay in or right next to the same area: ${item.location}.
+- Strictly follow the Veto List and every VETO constraint.
+- Use Google Search Grounding to discover places and Google Maps Grounding to get their exact names and Google Maps URIs.
+- Copy the EXACT URI from the grounding metadata into "googleMapsLink". NEVER construct URLs manually. If no URI is available, set "googleMapsLink" to null.
+- Use the exact, unmodified, official name from the tools for the "activity" field.
+
+Generate a JSON object with the following structure:
+{
+"alternatives": [
+{
+"time": "${item.time}",
+"activity": "Name of the place (exact name from tool).",
+"location": "Neighborhood or area (from tool).",
+"description": "A brief description, and why it's a good swap.",
+"googleMapsLink": "https://maps.google.com/... (Google Maps URI from grounding metadata, or null if not available)"
+}
+]
+}
+`;
+};
+
+export const alternativesV1: PromptTemplate<'alternatives'> = {
+    id: 'alternatives@1',
+    kind: 'alternatives',
+    version: 1,
+    description: 'Suggests swaps for one stop in the same time slot and area',
+    render,
+};
@@ -0,0 +1,15 @@
+import { PromptTemplate, AlternativesPromptInputs } from './types';
+import { alternativesV1 } from './alternativesV1';
+import { formatCostInstructions } from './sections';
+
+const render = (inputs: AlternativesPromptInputs) => {
+    return alternativesV1.render(inputs) + formatCostInstructions(inputs.itinerary.costCurrency || null, false);
+};
+
+export const alternativesV2: PromptTemplate<'alternatives'> = {
+    id: 'alternatives@2',
+    kind: 'alternatives',
+    version: 2,
+    description: 'v1 plus per-person cost estimates in the trip currency',
+    render,
+};
@@ -0,0 +1,15 @@
+import { PromptTemplate, DayPromptInputs } from './types';
+import { dayV1 } from './dayV1';
+import { formatCostInstructions } from './sections';
+
+const render = (inputs: DayPromptInputs) => {
+    return dayV1.render(inputs) + formatCostInstructions(inputs.itinerary.costCurrency || null, false);
+};
+
+export const dayV2: PromptTemplate<'day'> = {
+    id: 'day@2',
+    kind: 'day',
+    version: 2,
+    description: 'v1 plus per-person cost estimates in the trip currency',
+    render,
+};
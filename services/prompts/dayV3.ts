@@ -0,0 +1,15 @@
+import { PromptTemplate, DayPromptInputs } from './types';
+import { dayV2 } from './dayV2';
+import { formatBaseHotelInstructions } from './sections';
+
+const render = (inputs: DayPromptInputs) => {
+    return dayV2.render(inputs) + formatBaseHotelInstructions(inputs.baseHotel, false);
+};
+
+export const dayV3: PromptTemplate<'day'> = {
+    id: 'day@3',
+    kind: 'day',
+    version: 3,
+    description: 'v2 plus the selected hotel as the base the day starts and ends near',
+    render,
+};
@@ -0,0 +1,20 @@
+import { PromptTemplate, DayPromptInputs } from './types';
+import { dayV3 } from './dayV3';
+import { formatPinnedItems } from './sections';
+
+// Only the replaced day's pinned items; the other days are already sent unchanged
+const render = (inputs: DayPromptInputs) => {
+    const day = inputs.itinerary.dailyItinerary[inputs.dayIndex];
+    const pinnedItems = day.items
+        .filter(item => item.pinned)
+        .map(item => ({ dayIndex: inputs.dayIndex, day: day.day, item }));
+    return dayV3.render(inputs) + formatPinnedItems(pinnedItems);
+};
+
+export const dayV4: PromptTemplate<'day'> = {
+    id: 'day@4',
+    kind: 'day',
+    version: 4,
+    description: 'v3 plus pinned items on the replaced day as fixed anchors',
+    render,
+};
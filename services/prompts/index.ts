@@ -0,0 +1,66 @@
+import { PromptTemplate, PromptKind } from './types';
+import { itineraryV7 } from './itineraryV7';
+import { itineraryV8 } from './itineraryV8';
+import { dayV4 } from './dayV4';
+import { alternativesV2 } from './alternativesV2';
+
+export type {
+    PromptTemplate,
+    PromptKind,
+    PromptInputsByKind,
+    ItineraryPromptInputs,
+    DayPromptInputs,
+    AlternativesPromptInputs,
+} from './types';
+export { PROMPT_TEMPLATES } from './registry';
+export { renderRepairPrompt } from './repair';
+
+interface PromptRollout<K extends PromptKind> {
+    stable: PromptTemplate<K>;
+    candidate: PromptTemplate<K> | null;
+    percentage: number; // Share of plans (0-100) that get the candidate
+}
+
+const parsePercentage = (value: string | undefined): number => {
+    const percentage = Number(value);
+    return Number.isFinite(percentage) ? Math.min(100, Math.max(0, percentage)) : 0;
+};
+
+/**
+ * Which template each kind of generation uses.
+ * To trial a new version, register it as the candidate and set a rollout percentage
+ * (VITE_ITINERARY_PROMPT_ROLLOUT for full itineraries). Every itinerary version records
+ * the template that produced it along with its violation and link-match counts, so the
+ * two templates can be compared before promoting the candidate to stable.
+ */
+const ROLLOUTS: { [K in PromptKind]: PromptRollout<K> } = {
+    itinerary: {
+        stable: itineraryV7,
+        candidate: itineraryV8,
+        percentage: parsePercentage(import.meta.env.VITE_ITINERARY_PROMPT_ROLLOUT),
+    },
+    day: { stable: dayV4, candidate: null, percentage: 0 },
+    alternatives: { stable: alternativesV2, candidate: null, percentage: 0 },
+};
+
+// FNV-1a, so a plan lands in the same rollout bucket on every device and every generation
+const getRolloutBucket = (planId: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < planId.length; i++) {
+        hash ^= planId.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % 100;
+};
+
+/**
+ * Picks the template for a plan. Assignment is per plan, not per request, so regenerating
+ * a plan keeps using the same template and results stay comparable.
+ */
+export const selectPromptTemplate = <K extends PromptKind>(kind: K, planId: string): PromptTemplate<K> => {
+    const rollout = ROLLOUTS[kind] as PromptRollout<K>;
+    if (rollout.candidate && getRolloutBucket(planId) < rollout.percentage) {
+        return rollout.candidate;
+    }
+    return rollout.stable;
+};
@@ -0,0 +1,24 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV1 } from './itineraryV1';
+
+// Aimed at the two things we measure per version: constraint violations and items without a grounded link
+export const SELF_CHECK = `
+SELF-CHECK BEFORE ANSWERING:
+1. Go through every VETO (Veto List and VETO constraints) and remove any item that breaks it, including items that start too early or too late.
+2. Go through every MUST DO and make sure it appears as an "activity" or hidden gem "name" somewhere in the trip.
+3. Write every "time" as a clock time such as "9:30 AM", never "Morning" or "Evening".
+4. For every "activity", hotel and hidden gem, look the place up with Google Maps Grounding and copy its exact name and URI. Replace places you could not look up rather than leaving them without a link.
+`;
+
+// v1 is frozen, so building on its output keeps this version stable too
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV1.render(inputs) + SELF_CHECK;
+};
+
+export const itineraryV2: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@2',
+    kind: 'itinerary',
+    version: 2,
+    description: 'v1 plus a self-check pass for vetoes, must-dos, clock times and grounded links',
+    render,
+};
@@ -0,0 +1,15 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV1 } from './itineraryV1';
+import { formatCostInstructions } from './sections';
+
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV1.render(inputs) + formatCostInstructions(null, true);
+};
+
+export const itineraryV3: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@3',
+    kind: 'itinerary',
+    version: 3,
+    description: 'v1 plus per-person cost estimates for hotels and items',
+    render,
+};
@@ -0,0 +1,16 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV3 } from './itineraryV3';
+import { SELF_CHECK } from './itineraryV2';
+
+// The v2 self-check on top of v3, so the candidate keeps trialling the self-check with cost estimates
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV3.render(inputs) + SELF_CHECK;
+};
+
+export const itineraryV4: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@4',
+    kind: 'itinerary',
+    version: 4,
+    description: 'v3 (cost estimates) plus the v2 self-check pass',
+    render,
+};
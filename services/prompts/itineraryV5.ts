@@ -0,0 +1,15 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV3 } from './itineraryV3';
+import { formatBaseHotelInstructions } from './sections';
+
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV3.render(inputs) + formatBaseHotelInstructions(inputs.baseHotel, true);
+};
+
+export const itineraryV5: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@5',
+    kind: 'itinerary',
+    version: 5,
+    description: 'v3 plus the selected hotel as the base every day starts and ends near',
+    render,
+};
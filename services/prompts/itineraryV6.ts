@@ -0,0 +1,16 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV5 } from './itineraryV5';
+import { SELF_CHECK } from './itineraryV2';
+
+// The candidate keeps trialling the self-check, now on top of the base hotel
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV5.render(inputs) + SELF_CHECK;
+};
+
+export const itineraryV6: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@6',
+    kind: 'itinerary',
+    version: 6,
+    description: 'v5 (base hotel) plus the v2 self-check pass',
+    render,
+};
@@ -0,0 +1,15 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV5 } from './itineraryV5';
+import { formatPinnedItems } from './sections';
+
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV5.render(inputs) + formatPinnedItems(inputs.pinnedItems);
+};
+
+export const itineraryV7: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@7',
+    kind: 'itinerary',
+    version: 7,
+    description: 'v5 plus pinned items as fixed anchors on their day and time',
+    render,
+};
@@ -0,0 +1,16 @@
+import { PromptTemplate, ItineraryPromptInputs } from './types';
+import { itineraryV7 } from './itineraryV7';
+import { SELF_CHECK } from './itineraryV2';
+
+// The candidate keeps trialling the self-check, now on top of pinned items
+const render = (inputs: ItineraryPromptInputs) => {
+    return itineraryV7.render(inputs) + SELF_CHECK;
+};
+
+export const itineraryV8: PromptTemplate<'itinerary'> = {
+    id: 'itinerary@8',
+    kind: 'itinerary',
+    version: 8,
+    description: 'v7 (pinned items) plus the v2 self-check pass',
+    render,
+};
@@ -0,0 +1,24 @@
+import { PromptTemplate, PromptKind } from './types';
+import { itineraryV1 } from './itineraryV1';
+import { itineraryV2 } from './itineraryV2';
+import { itineraryV3 } from './itineraryV3';
+import { itineraryV4 } from './itineraryV4';
+import { itineraryV5 } from './itineraryV5';
+import { itineraryV6 } from './itineraryV6';
+import { itineraryV7 } from './itineraryV7';
+import { itineraryV8 } from './itineraryV8';
+import { dayV1 } from './dayV1';
+import { dayV2 } from './dayV2';
+import { dayV3 } from './dayV3';
+import { dayV4 } from './dayV4';
+import { alternativesV1 } from './alternativesV1';
+import { alternativesV2 } from './alternativesV2';
+
+/**
+ * Every registered template, including retired ones, keyed by id.
+ * Kept apart from the rollout config (which reads Vite env) so the generation server can use it
+ * as the allow-list of prompts it will render.
+ */
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate<PromptKind>> = Object.fromEntries(
+    [itineraryV1, itineraryV2, itineraryV3, itineraryV4, itineraryV5, itineraryV6, itineraryV7, itineraryV8, dayV1, dayV2, dayV3, dayV4, alternativesV1, alternativesV2].map(template => [template.id, template as PromptTemplate<PromptKind>])
+);
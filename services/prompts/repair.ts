@@ -0,0 +1,21 @@
+import { ItineraryValidationError, formatValidationErrors } from '../../utils/validateItinerary';
+
+/**
+ * Asks the model to fix JSON that failed validation.
+ * Not a versioned template: it only echoes the model's own output back with the errors.
+ */
+export const renderRepairPrompt = (invalidJson: string, errors: ItineraryValidationError[]) => {
+    return `
+You previously generated trip itinerary JSON, but it failed validation.
+Return ONLY the corrected JSON object. Do not include any text, markdown formatting, or explanations.
+Keep every place name, "googleMapsLink" and "locationUri" value exactly as it is, and keep all text in the language it is already written in. Do not invent new links; use null where a link is missing.
+If the JSON was cut off, complete it in the same style so every day has its "items".
+If the number of days is wrong, add or remove whole days at the end so the count matches, keeping the existing days unchanged.
+
+Validation errors:
+${formatValidationErrors(errors)}
+
+Previous response:
+${invalidJson}
+`;
+};
@@ -0,0 +1,99 @@
+import { Hotel, PinnedItem } from '../../types';
+import { PlanConstraint, ConstraintKind } from '../../types/plan';
+import { TripDay } from '../../utils/tripDates';
+import { getLanguage, DEFAULT_LANGUAGE } from '../../utils/languages';
+
+// Prompt sections shared by several templates
+
+const CONSTRAINT_LABELS: Record<ConstraintKind, string> = {
+    must_do: 'MUST DO',
+    veto: 'VETO',
+};
+
+// Structured constraints as a separate list, hard rules first, each attributed to whoever asked for it
+export const formatConstraints = (constraints: PlanConstraint[]) => {
+    const formatGroup = (hard: boolean) => constraints
+        .filter(constraint => constraint.hard === hard)
+        .map(constraint => `- [${CONSTRAINT_LABELS[constraint.kind]}] ${constraint.text} (requested by ${constraint.addedBy})`)
+        .join('\n');
+
+    const hardRules = formatGroup(true);
+    const softPreferences = formatGroup(false);
+
+    return `
+GROUP CONSTRAINTS:
+HARD RULES (the itinerary MUST satisfy every one of these: include every MUST DO, never include anything a VETO rules out):
+${hardRules || '(none)'}
+SOFT PREFERENCES (satisfy these whenever possible):
+${softPreferences || '(none)'}
+`;
+};
+
+// The exact calendar, so the model plans the right number of days and can account for weekday closures
+export const formatTripCalendar = (tripDays: TripDay[]) => {
+    return `
+TRIP CALENDAR: the trip is exactly ${tripDays.length} ${tripDays.length === 1 ? 'day' : 'days'} long. "dailyItinerary" MUST contain exactly ${tripDays.length} entries, one per date:
+${tripDays.map((tripDay, index) => `- Day ${index + 1}: ${tripDay.weekday}, ${tripDay.date}`).join('\n')}
+Give each day its "date" and "weekday" from this calendar, and avoid places that are closed on that weekday.
+`;
+};
+
+// Descriptive text is translated, but place names stay exactly as the tools return them so sources still match
+export const formatLanguageInstructions = (languageCode: string) => {
+    const language = getLanguage(languageCode);
+    if (language.code === DEFAULT_LANGUAGE) return '';
+
+    return `
+OUTPUT LANGUAGE: ${language.name}
+- Write every descriptive text value in ${language.name}: "tripTitle", "vibeCheck", "packingList" entries, day "title" and every "description".
+- Do NOT translate place names. "name" and "activity" values must stay EXACTLY as the grounding tools return them, and "location" should use the name the tools return.
+- Keep all JSON keys, "day" labels (e.g. "Day 1"), "time", "date", "weekday" and every link in English/as-is.
+`;
+};
+
+// Per-person cost ranges, so the dashboard can compare the plan with each member's budget.
+// A full itinerary picks the currency; day and alternative prompts pass it in so every estimate uses the same one.
+// Older itineraries have no currency, so those prompts fall back to the local currency without top-level fields.
+export const formatCostInstructions = (currency: string | null, fullItinerary: boolean) => {
+    const currencyRule = currency
+        ? `in ${currency}, the currency the rest of the trip is priced in`
+        : 'in the local currency of the destination';
+
+    return `
+COST ESTIMATES:
+- Add an "estimatedCost" field to every ${fullItinerary ? 'hotel and every ' : ''}item: {"min": 1500, "max": 3000, "currency": "JPY"}.
+- Estimates are per person, ${currencyRule}, as an ISO 4217 code. Use Google Search to check current prices where you can.
+- For an item, estimate what one person typically spends there: entry tickets, a meal, drinks or a class. Use {"min": 0, "max": 0, ...} for free places, and null only if you really can't estimate it.${fullItinerary ? `
+- For a hotel, estimate the price per person per night, assuming the group shares rooms.` : ''}${currency || !fullItinerary ? '' : `
+- Also add these top-level fields to the JSON object:
+"costCurrency": "the ISO 4217 code used by every estimate, e.g. JPY",
+"exchangeRates": {"USD": 0.0067, "EUR": 0.0062, "GBP": 0.0053} (the approximate value of 1 unit of costCurrency in USD, EUR, GBP and any other currency mentioned in the group's budgets)`}
+`;
+};
+
+// The hotel the group chose, so every day starts and ends within easy reach of it.
+// A full itinerary keeps it first in "recommendedHotels" so the chosen base stays on the hotel list.
+export const formatBaseHotelInstructions = (hotel: Hotel | null, fullItinerary: boolean) => {
+    if (!hotel) return '';
+
+    return `
+BASE HOTEL: the group is staying at "${hotel.name}" (${hotel.location}) for the whole trip.
+- Start every day near the hotel: the first item should be a short walk or transit ride from it.
+- End every day near the hotel: the last item should leave an easy trip back to it.
+- Plan each day's route as a loop out from the hotel and back, rather than ending on the far side of the city.${fullItinerary ? `
+- Make "${hotel.name}" the first entry of "recommendedHotels", with its name exactly as written here. The other hotel can be an alternative in a different area.` : ''}
+`;
+};
+
+// Items the group booked, as fixed anchors. Anything dropped anyway is put back after generation (utils/pinnedItems).
+export const formatPinnedItems = (pinnedItems: PinnedItem[]) => {
+    if (pinnedItems.length === 0) return '';
+
+    return `
+PINNED ITEMS: the group has already booked these, so they are fixed anchors:
+${pinnedItems.map(({ day, item }) => `- ${day} at ${item.time}: ${item.activity} (${item.location})`).join('\n')}
+- Include every pinned item on its day, at its time, with its "activity" name exactly as written here.
+- Plan the rest of the day around it: leave time to travel to and from it, and don't schedule anything else at the same time.
+- Never move, rename, replace or drop a pinned item.
+`;
+};
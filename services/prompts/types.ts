@@ -0,0 +1,61 @@
+import { Itinerary, Hotel, PinnedItem } from '../../types';
+import { PlanConstraint } from '../../types/plan';
+import { TripDay } from '../../utils/tripDates';
+
+export interface ItineraryPromptInputs {
+    destination: string;
+    tripDates: string;
+    groupVibe: string;
+    mustDoList: string;
+    vetoList: string;
+    constraints: PlanConstraint[];
+    tripDays: TripDay[]; // Empty when the plan only has free-text dates
+    language: string;
+    baseHotel: Hotel | null; // The hotel the group picked, if any
+    pinnedItems: PinnedItem[]; // From the itinerary being replaced
+}
+
+export interface DayPromptInputs {
+    destination: string;
+    tripDates: string;
+    groupVibe: string;
+    mustDoList: string;
+    vetoList: string;
+    constraints: PlanConstraint[];
+    language: string;
+    baseHotel: Hotel | null; // The hotel the group picked, if any
+    itinerary: Itinerary;
+    dayIndex: number;
+    issues: string[]; // Problems the replacement day has to fix, e.g. constraint violations
+}
+
+export interface AlternativesPromptInputs {
+    destination: string;
+    groupVibe: string;
+    vetoList: string;
+    constraints: PlanConstraint[];
+    language: string;
+    itinerary: Itinerary;
+    dayIndex: number;
+    itemIndex: number;
+    count: number;
+}
+
+export interface PromptInputsByKind {
+    itinerary: ItineraryPromptInputs;
+    day: DayPromptInputs;
+    alternatives: AlternativesPromptInputs;
+}
+
+export type PromptKind = keyof PromptInputsByKind;
+
+/**
+ * A named, versioned prompt. Published templates are never edited; a change is a new version.
+ */
+export interface PromptTemplate<K extends PromptKind> {
+    id: string; // "<kind>@<version>", recorded on every itinerary version it produced
+    kind: K;
+    version: number;
+    description: string;
+    render: (inputs: PromptInputsByKind[K]) => string;
+}
@@ -0,0 +1,87 @@
+import { ItineraryProvider, GenerationRequest, GenerationResult } from './types';
+import { Itinerary } from '../../types';
+import { abortableDelay, throwIfAborted } from '../../utils/abort';
+import {
+  FIXTURE_ITINERARY,
+  FIXTURE_REPLACEMENT_DAY,
+  FIXTURE_ALTERNATIVES,
+  FIXTURE_SOURCES,
+} from './fixtures';
+
+const STREAM_CHUNK_SIZE = 120;
+const STREAM_CHUNK_DELAY_MS = 40;
+const FIXTURE_MODEL = 'fixture';
+
+/**
+ * Repeats or trims the fixture days to match the trip calendar's day count, when the prompt has one
+ */
+function fitFixtureToCalendar(prompt: string): Itinerary {
+  const dayCount = Number(prompt.match(/"dailyItinerary" MUST contain exactly (\d+) entries/)?.[1]);
+  if (!dayCount) return FIXTURE_ITINERARY;
+
+  const fixtureDays = FIXTURE_ITINERARY.dailyItinerary;
+  return {
+    ...FIXTURE_ITINERARY,
+    dailyItinerary: Array.from({ length: dayCount }, (_, index) => ({
+      ...fixtureDays[index % fixtureDays.length],
+      day: `Day ${index + 1}`,
+    })),
+  };
+}
+
+/**
+ * Builds the deterministic response for a request.
+ * Prompts are only inspected for the day label and day count, so the same request always yields the same output.
+ */
+function getFixtureResponse(request: GenerationRequest): GenerationResult {
+  switch (request.kind) {
+    case 'itinerary':
+      return { text: JSON.stringify(fitFixtureToCalendar(request.prompt), null, 2), sources: FIXTURE_SOURCES, model: FIXTURE_MODEL, usage: null, generationId: null };
+    case 'day': {
+      const dayLabel = request.prompt.match(/"day": "([^"]+)"/)?.[1] || FIXTURE_REPLACEMENT_DAY.day;
+      return {
+        text: JSON.stringify({ ...FIXTURE_REPLACEMENT_DAY, day: dayLabel }, null, 2),
+        sources: FIXTURE_SOURCES,
+        model: FIXTURE_MODEL,
+        usage: null,
+        generationId: null,
+      };
+    }
+    case 'alternatives':
+      return { text: JSON.stringify({ alternatives: FIXTURE_ALTERNATIVES }, null, 2), sources: FIXTURE_SOURCES, model: FIXTURE_MODEL, usage: null, generationId: null };
+    case 'repair':
+      // Fixture responses are always valid, so a repair request means something upstream is broken
+      throw new Error('The fixture provider cannot repair JSON. Fixture responses should always be valid.');
+  }
+}
+
+const generate = async (request: GenerationRequest, signal?: AbortSignal): Promise<GenerationResult> => {
+  throwIfAborted(signal);
+  console.log(`Fixture provider: returning ${request.kind} fixture`);
+  return getFixtureResponse(request);
+};
+
+/**
+ * Emits the fixture in small chunks so progressive rendering can be exercised offline
+ */
+const generateStream = async (
+  request: GenerationRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<GenerationResult> => {
+  const result = getFixtureResponse(request);
+
+  for (let end = STREAM_CHUNK_SIZE; end < result.text.length + STREAM_CHUNK_SIZE; end += STREAM_CHUNK_SIZE) {
+    await abortableDelay(STREAM_CHUNK_DELAY_MS, signal);
+    onText(result.text.slice(0, end));
+  }
+
+  return result;
+};
+
+export const fixtureProvider: ItineraryProvider = {
+  id: 'fixture',
+  model: FIXTURE_MODEL,
+  generate,
+  generateStream,
+};
@@ -0,0 +1,250 @@
+import { Itinerary, DailyPlan, ItineraryItem, GroundingChunk, CostEstimate } from '../../types';
+
+/**
+ * Offline fixture data for the fixture provider.
+ * Links use the @lat,lng format so the maps can place markers without geocoding,
+ * and a few items deliberately have no googleMapsLink so matchSourcesToItinerary
+ * has something to match against the grounding chunks.
+ */
+
+const place = (name: string, lat: number, lng: number): string =>
+  `https://www.google.com/maps/place/${encodeURIComponent(name)}/@${lat},${lng},17z`;
+
+const mapsChunk = (title: string, lat: number, lng: number): GroundingChunk => ({
+  maps: { title, uri: place(title, lat, lng) },
+});
+
+export const FIXTURE_SOURCES: GroundingChunk[] = [
+  mapsChunk('Hotel Gracery Shinjuku', 35.6951, 139.7020),
+  mapsChunk('Asakusa View Hotel', 35.7151, 139.7921),
+  mapsChunk('Senso-ji', 35.7148, 139.7967),
+  mapsChunk('Nakamise Shopping Street', 35.7119, 139.7964),
+  mapsChunk('Kappabashi Dougu Street', 35.7140, 139.7877),
+  mapsChunk('Tokyo Skytree', 35.7101, 139.8107),
+  mapsChunk('Meiji Jingu', 35.6764, 139.6993),
+  mapsChunk('Takeshita Street', 35.6716, 139.7031),
+  mapsChunk('Ichiran Shibuya', 35.6614, 139.7010),
+  mapsChunk('Shibuya Sky', 35.6585, 139.7021),
+  mapsChunk('Nonbei Yokocho', 35.6590, 139.7030),
+  mapsChunk('teamLab Planets TOKYO', 35.6491, 139.7898),
+  mapsChunk('Tsukiji Outer Market', 35.6654, 139.7707),
+  mapsChunk('Hamarikyu Gardens', 35.6600, 139.7632),
+  mapsChunk('Golden Gai', 35.6940, 139.7046),
+  mapsChunk('Yanaka Ginza', 35.7277, 139.7660),
+  mapsChunk('Nezu Shrine', 35.7202, 139.7603),
+  mapsChunk('Kayaba Coffee', 35.7198, 139.7700),
+  mapsChunk('Afuri Harajuku', 35.6702, 139.7058),
+  mapsChunk('Tonkatsu Maisen Aoyama', 35.6688, 139.7120),
+  mapsChunk('Harajuku Gyoza Lou', 35.6689, 139.7066),
+  { web: { title: 'Tokyo travel guide', uri: 'https://www.gotokyo.org/en/' } },
+];
+
+const link = (title: string): string | null =>
+  FIXTURE_SOURCES.find((source) => source.maps?.title === title)?.maps?.uri || null;
+
+// Per person in JPY, the fixture trip's cost currency
+const yen = (min: number, max: number): CostEstimate => ({ min, max, currency: 'JPY' });
+
+export const FIXTURE_ITINERARY: Itinerary = {
+  tripTitle: 'Tokyo Drift (But Make It Ramen) 🍜🗼',
+  vibeCheck: 'A food-first crew that wants neon nights and quiet shrines in equal measure. Late starts, big lunches and zero museum marathons.',
+  packingList: ['Comfy walking shoes 👟', 'Pocket Wi-Fi or eSIM 📶', 'Coin purse for vending machines 🪙'],
+  costCurrency: 'JPY',
+  exchangeRates: { USD: 0.0067, EUR: 0.0062, GBP: 0.0053 },
+  recommendedHotels: [
+    {
+      name: 'Hotel Gracery Shinjuku',
+      description: 'Right in the middle of Shinjuku nightlife, great transit links and the famous Godzilla head.',
+      location: 'Shinjuku',
+      googleMapsLink: link('Hotel Gracery Shinjuku'),
+      estimatedCost: yen(12000, 18000),
+    },
+    {
+      name: 'Asakusa View Hotel',
+      description: 'Calmer old-Tokyo base with Skytree views, close to Senso-ji.',
+      location: 'Asakusa',
+      googleMapsLink: null,
+      estimatedCost: yen(10000, 15000),
+    },
+  ],
+  dailyItinerary: [
+    {
+      day: 'Day 1',
+      title: 'Old Tokyo Warm-Up ⛩️',
+      items: [
+        {
+          time: '10:30 AM',
+          activity: 'Senso-ji',
+          location: 'Asakusa',
+          description: "Tokyo's oldest temple. Grab an omikuji fortune and waft some incense.",
+          googleMapsLink: link('Senso-ji'),
+          estimatedCost: yen(0, 0),
+          hiddenGem: {
+            name: 'Kappabashi Dougu Street',
+            location: 'Asakusa',
+            description: 'Kitchenware street where restaurants buy their plastic food displays.',
+            googleMapsLink: link('Kappabashi Dougu Street'),
+          },
+        },
+        {
+          time: '12:30 PM',
+          activity: 'Nakamise Shopping Street',
+          location: 'Asakusa',
+          description: 'Snack crawl: ningyo-yaki, melon pan and matcha everything.',
+          googleMapsLink: null,
+          estimatedCost: yen(1000, 2500),
+        },
+        {
+          time: '4:00 PM',
+          activity: 'Tokyo Skytree',
+          location: 'Oshiage',
+          description: 'Catch the city turning golden from the Tembo Deck.',
+          googleMapsLink: link('Tokyo Skytree'),
+          estimatedCost: yen(2100, 3500),
+        },
+      ],
+    },
+    {
+      day: 'Day 2',
+      title: 'Harajuku to Shibuya Glow-Up ✨',
+      items: [
+        {
+          time: '10:00 AM',
+          activity: 'Meiji Jingu',
+          location: 'Harajuku',
+          description: 'Forest walk to the shrine before the crowds arrive.',
+          googleMapsLink: link('Meiji Jingu'),
+          estimatedCost: yen(0, 0),
+        },
+        {
+          time: '11:30 AM',
+          activity: 'Takeshita Street',
+          location: 'Harajuku',
+          description: 'Rainbow cotton candy, crepes and questionable fashion purchases.',
+          googleMapsLink: null,
+          estimatedCost: yen(1000, 3000),
+        },
+        {
+          time: '1:00 PM',
+          activity: 'Ichiran Shibuya',
+          location: 'Shibuya',
+          description: 'Solo-booth tonkotsu ramen. Customize your spice level.',
+          googleMapsLink: link('Ichiran Shibuya'),
+          estimatedCost: yen(1000, 1500),
+        },
+        {
+          time: '6:00 PM',
+          activity: 'Shibuya Sky',
+          location: 'Shibuya',
+          description: 'Rooftop sunset over the scramble crossing.',
+          googleMapsLink: link('Shibuya Sky'),
+          estimatedCost: yen(2200, 2500),
+          hiddenGem: {
+            name: 'Nonbei Yokocho',
+            location: 'Shibuya',
+            description: 'Tiny lantern-lit alley of six-seat bars.',
+            googleMapsLink: null,
+          },
+        },
+      ],
+    },
+    {
+      day: 'Day 3',
+      title: 'Digital Art and Fish Market Finale 🐟',
+      items: [
+        {
+          time: '10:30 AM',
+          activity: 'Tsukiji Outer Market',
+          location: 'Tsukiji',
+          description: 'Tamagoyaki on a stick and the freshest sushi breakfast of your life.',
+          googleMapsLink: link('Tsukiji Outer Market'),
+          estimatedCost: yen(2000, 4000),
+          hiddenGem: {
+            name: 'Hamarikyu Gardens',
+            location: 'Shiodome',
+            description: 'Tea house on a tidal pond surrounded by skyscrapers.',
+            googleMapsLink: link('Hamarikyu Gardens'),
+          },
+        },
+        {
+          time: '2:00 PM',
+          activity: 'teamLab Planets TOKYO',
+          location: 'Toyosu',
+          description: 'Wade barefoot through mirrored infinity rooms.',
+          googleMapsLink: link('teamLab Planets TOKYO'),
+          estimatedCost: yen(3600, 4200),
+        },
+        {
+          time: '8:00 PM',
+          activity: 'Golden Gai',
+          location: 'Shinjuku',
+          description: 'Farewell drinks in a maze of tiny themed bars.',
+          googleMapsLink: null,
+          estimatedCost: yen(2500, 6000),
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Replacement day returned for "regenerate this day" requests
+ */
+export const FIXTURE_REPLACEMENT_DAY: DailyPlan = {
+  day: 'Day 1',
+  title: 'Yanaka Slow Morning ☕',
+  items: [
+    {
+      time: '10:30 AM',
+      activity: 'Nezu Shrine',
+      location: 'Nezu',
+      description: 'Tunnel of vermilion torii gates without the Kyoto crowds.',
+      googleMapsLink: link('Nezu Shrine'),
+      estimatedCost: yen(0, 0),
+    },
+    {
+      time: '12:00 PM',
+      activity: 'Kayaba Coffee',
+      location: 'Yanaka',
+      description: 'Retro kissaten serving egg sandos since 1938.',
+      googleMapsLink: link('Kayaba Coffee'),
+      estimatedCost: yen(800, 1500),
+      hiddenGem: {
+        name: 'Yanaka Ginza',
+        location: 'Yanaka',
+        description: 'Old-school shopping street famous for its cat statues.',
+        googleMapsLink: link('Yanaka Ginza'),
+      },
+    },
+  ],
+};
+
+/**
+ * Alternatives returned for "suggest alternatives" requests
+ */
+export const FIXTURE_ALTERNATIVES: ItineraryItem[] = [
+  {
+    time: '1:00 PM',
+    activity: 'Afuri Harajuku',
+    location: 'Harajuku',
+    description: 'Light yuzu shio ramen if tonkotsu feels too heavy.',
+    googleMapsLink: link('Afuri Harajuku'),
+    estimatedCost: yen(1200, 1800),
+  },
+  {
+    time: '1:00 PM',
+    activity: 'Tonkatsu Maisen Aoyama',
+    location: 'Omotesando',
+    description: 'Melt-in-your-mouth pork cutlet in a converted bathhouse.',
+    googleMapsLink: link('Tonkatsu Maisen Aoyama'),
+    estimatedCost: yen(1800, 3000),
+  },
+  {
+    time: '1:00 PM',
+    activity: 'Harajuku Gyoza Lou',
+    location: 'Harajuku',
+    description: 'Cheap, fast and legendary pan-fried gyoza.',
+    googleMapsLink: null,
+    estimatedCost: yen(600, 1200),
+  },
+];
@@ -0,0 +1,329 @@
+import { GoogleGenAI } from "@google/genai";
+import { GroundingChunk } from '../../types';
+import { GenerationUsage } from '../../types/usage';
+import { ItineraryProvider, GenerationRequest, GenerationResult } from './types';
+import { abortableDelay, createAbortError, isAbortError, throwIfAborted } from '../../utils/abort';
+
+const MODEL = "gemini-2.5-pro";
+
+// Retry function with exponential backoff; aborting the signal stops any further attempts
+const retryWithBackoff = async <T>(
+    fn: () => Promise<T>,
+    signal?: AbortSignal,
+    maxRetries: number = 3,
+    baseDelay: number = 1000
+): Promise<T> => {
+    let lastError: any;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await fn();
+        } catch (error: any) {
+            lastError = error;
+
+            throwIfAborted(signal);
+            if (isAbortError(error)) {
+                throw error;
+            }
+
+            // Check if it's a retryable error (503, 429, or network errors)
+            // Handle both direct error objects and nested error structures
+            const errorCode = error?.code || error?.error?.code;
+            const errorStatus = error?.status || error?.error?.status;
+            const errorMessage = error?.message || error?.error?.message || JSON.stringify(error);
+
+            const isRetryable =
+                errorCode === 503 ||
+                errorStatus === 'UNAVAILABLE' ||
+                errorCode === 429 ||
+                errorMessage?.includes('503') ||
+                errorMessage?.includes('UNAVAILABLE') ||
+                errorMessage?.includes('network') ||
+                errorMessage?.includes('ECONNRESET');
+
+            if (!isRetryable || attempt === maxRetries - 1) {
+                throw error;
+            }
+
+            // Calculate delay with exponential backoff
+            const delay = baseDelay * Math.pow(2, attempt);
+            console.log(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms...`);
+            await abortableDelay(delay, signal);
+        }
+    }
+
+    throw lastError;
+};
+
+// Maps raw API errors to user-friendly messages
+const toFriendlyError = (error: any): Error => {
+    // Extract error details (handle both direct and nested error structures)
+    const errorCode = error?.code || error?.error?.code;
+    const errorStatus = error?.status || error?.error?.status;
+    const errorMessage = error?.message || error?.error?.message || JSON.stringify(error);
+
+    if (errorCode === 503 || errorStatus === 'UNAVAILABLE' || errorMessage?.includes('503') || errorMessage?.includes('UNAVAILABLE')) {
+        return new Error('The API service is temporarily unavailable. This is usually a temporary issue. Please try again in a few moments. If the problem persists, check your API key permissions in Google Cloud Console.');
+    }
+
+    if (errorCode === 429 || errorMessage?.includes('429')) {
+        return new Error('Rate limit exceeded. Please wait a moment and try again.');
+    }
+
+    if (errorMessage?.includes('API_KEY') || errorMessage?.includes('api key')) {
+        return new Error('API key is missing or invalid. Please check your environment variables.');
+    }
+
+    if (errorMessage?.includes('timeout')) {
+        return new Error('The request took too long. This might be due to high API load. Please try again.');
+    }
+
+    // Keep the original message if we can't categorize it
+    return new Error(errorMessage || 'Failed to generate itinerary. Please try again.');
+};
+
+// Server-only: the key is read from the generation server's environment, never the client bundle
+const getClient = (): GoogleGenAI => {
+    if (!process.env.GEMINI_API_KEY) {
+        throw new Error("GEMINI_API_KEY environment variable not set");
+    }
+    return new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+};
+
+// Grounded requests use both tools; repairs only need JSON output
+const getConfig = (request: GenerationRequest) => {
+    return request.grounded
+        ? {
+            tools: [
+                { googleSearch: {} },
+                { googleMaps: {} }
+            ],
+        }
+        : {
+            responseMimeType: 'application/json',
+        };
+};
+
+const TIMEOUT_MS = 120000; // 2 minutes
+const TIMEOUT_MESSAGE = 'API call timed out after 120 seconds. The request may be stuck in a tool call loop.';
+
+// Add timeout wrapper to prevent infinite loops; call clear once the request has settled.
+// Pass the returned signal to the API call instead of the caller's: it aborts on either the caller's
+// signal or the timeout, so a timed-out request stops on the wire rather than just losing the race.
+const createTimeout = (callerSignal?: AbortSignal) => {
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    if (callerSignal?.aborted) {
+        controller.abort();
+    } else {
+        callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+    }
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const promise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+            reject(new Error(TIMEOUT_MESSAGE));
+        }, TIMEOUT_MS);
+    });
+
+    return {
+        promise,
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        clear: () => {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener('abort', onCallerAbort);
+        },
+    };
+};
+
+const logGroundingSources = (sources: GroundingChunk[]) => {
+    console.log(`Found ${sources.length} sources`);
+
+    // Verify grounding sources
+    const mapsSources = sources.filter(s => s.maps?.uri);
+    const webSources = sources.filter(s => s.web?.uri);
+    console.log(`Grounding verification: ${mapsSources.length} Google Maps sources, ${webSources.length} Google Search sources`);
+
+    // Log sample URIs from grounding to verify they're being used
+    if (mapsSources.length > 0) {
+        console.log('Sample Google Maps URIs from grounding:', mapsSources.slice(0, 3).map(s => ({
+            title: s.maps?.title,
+            uri: s.maps?.uri
+        })));
+    }
+};
+
+// Maps the response's usageMetadata to our usage shape; grounding calls are the search queries the model ran
+const toUsage = (usageMetadata: any, webSearchQueries: string[]): GenerationUsage | null => {
+    if (!usageMetadata) return null;
+    return {
+        promptTokens: usageMetadata.promptTokenCount || 0,
+        candidateTokens: usageMetadata.candidatesTokenCount || 0,
+        toolTokens: usageMetadata.toolUsePromptTokenCount || 0,
+        thoughtsTokens: usageMetadata.thoughtsTokenCount || 0,
+        groundingCalls: webSearchQueries.length,
+    };
+};
+
+const generate = async (request: GenerationRequest, signal?: AbortSignal): Promise<GenerationResult> => {
+    const ai = getClient();
+
+    console.log(`Starting API call (${request.kind})...`);
+    const timeout = createTimeout(signal);
+
+    try {
+        // Wrap API call in retry logic
+        const response = await retryWithBackoff(async () => {
+            const apiCall = ai.models.generateContent({
+                model: MODEL,
+                contents: request.prompt,
+                config: { ...getConfig(request), abortSignal: timeout.signal },
+            });
+
+            return await Promise.race([apiCall, timeout.promise]);
+        }, timeout.signal);
+
+        console.log('API call completed, processing response...');
+
+        // Extract text content - try response.text first, then fallback to candidates
+        let text: string | undefined = response.text;
+
+        // Fallback: if response.text is undefined, try to extract from candidates
+        if (!text && response.candidates?.[0]?.content?.parts) {
+            text = response.candidates[0].content.parts
+                .filter((part: any) => part.text)
+                .map((part: any) => part.text)
+                .join('');
+        }
+
+        // Check if we have text content
+        if (!text) {
+            console.error('Response structure:', JSON.stringify(response, null, 2));
+            console.error('Candidates:', response.candidates);
+            console.error('Response keys:', Object.keys(response));
+
+            // Check if there are tool calls that need to be handled
+            const candidate = response.candidates?.[0];
+            if (candidate?.content?.parts?.some((part: any) => part.functionCall)) {
+                throw new Error('The model is making tool calls that require follow-up. This may indicate the tools are being called in a loop. Try using only one tool at a time.');
+            }
+
+            throw new Error('No text content in API response. The model may have failed to generate content or the response structure is unexpected.');
+        }
+
+        console.log(`Successfully extracted ${request.kind} JSON`);
+        const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] || [];
+        logGroundingSources(sources);
+
+        const usage = toUsage(response.usageMetadata, response.candidates?.[0]?.groundingMetadata?.webSearchQueries || []);
+        return { text, sources, model: MODEL, usage, generationId: null };
+    } catch (error: any) {
+        // The timeout aborts the request too, so check it before treating an AbortError as a cancel
+        if (timeout.timedOut()) {
+            console.error(`${request.kind} request timed out`);
+            throw new Error(TIMEOUT_MESSAGE);
+        }
+        if (isAbortError(error) || signal?.aborted) {
+            console.log(`${request.kind} request cancelled`);
+            throw createAbortError();
+        }
+        console.error(`Error generating ${request.kind}:`, error);
+        throw toFriendlyError(error);
+    } finally {
+        timeout.clear();
+    }
+};
+
+const generateStream = async (
+    request: GenerationRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+): Promise<GenerationResult> => {
+    const ai = getClient();
+
+    console.log(`Starting streaming API call (${request.kind})...`);
+    const timeout = createTimeout(signal);
+
+    try {
+        const result = await retryWithBackoff(async () => {
+            const consumeStream = async () => {
+                const stream = await ai.models.generateContentStream({
+                    model: MODEL,
+                    contents: request.prompt,
+                    config: { ...getConfig(request), abortSignal: timeout.signal },
+                });
+
+                // Reset per attempt so a retried stream doesn't append to a failed one
+                let text = '';
+                const sources: GroundingChunk[] = [];
+                const seenSourceUris = new Set<string>();
+                let usageMetadata: any = null;
+                const webSearchQueries = new Set<string>();
+
+                for await (const chunk of stream) {
+                    throwIfAborted(timeout.signal);
+                    const chunkText = chunk.candidates?.[0]?.content?.parts
+                        ?.filter((part: any) => part.text)
+                        .map((part: any) => part.text)
+                        .join('') || '';
+
+                    // Later chunks can repeat sources already seen, so keep only the first of each URI
+                    const chunkSources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+                    chunkSources?.forEach(source => {
+                        const uri = source.maps?.uri || source.web?.uri;
+                        if (uri && seenSourceUris.has(uri)) return;
+                        if (uri) seenSourceUris.add(uri);
+                        sources.push(source);
+                    });
+                    chunk.candidates?.[0]?.groundingMetadata?.webSearchQueries?.forEach(query => webSearchQueries.add(query));
+                    // Every chunk reports the running totals, so the last one wins
+                    if (chunk.usageMetadata) {
+                        usageMetadata = chunk.usageMetadata;
+                    }
+
+                    if (!chunkText) continue;
+                    text += chunkText;
+                    onText(text);
+                }
+
+                return { text, sources, model: MODEL, usage: toUsage(usageMetadata, [...webSearchQueries]), generationId: null };
+            };
+
+            return await Promise.race([consumeStream(), timeout.promise]);
+        }, timeout.signal);
+
+        if (!result.text) {
+            throw new Error('No text content in API response. The model may have failed to generate content or the response structure is unexpected.');
+        }
+
+        console.log(`Stream completed, successfully extracted ${request.kind} JSON`);
+        logGroundingSources(result.sources);
+
+        return result;
+    } catch (error: any) {
+        if (timeout.timedOut()) {
+            console.error(`Streaming ${request.kind} request timed out`);
+            throw new Error(TIMEOUT_MESSAGE);
+        }
+        if (isAbortError(error) || signal?.aborted) {
+            console.log(`Streaming ${request.kind} request cancelled`);
+            throw createAbortError();
+        }
+        console.error(`Error streaming ${request.kind}:`, error);
+        throw toFriendlyError(error);
+    } finally {
+        timeout.clear();
+    }
+};
+
+export const geminiProvider: ItineraryProvider = {
+    id: 'gemini',
+    model: MODEL,
+    generate,
+    generateStream,
+};
@@ -0,0 +1,25 @@
+import { ItineraryProvider } from './types';
+import { serverProvider } from './serverProvider';
+import { fixtureProvider } from './fixtureProvider';
+
+export type { ItineraryProvider, GenerationKind, GenerationRequest, GenerationResult, PromptSpec } from './types';
+
+// geminiProvider is deliberately not registered here: it needs the Gemini key,
+// so it only runs inside the generation server (server/index.ts)
+const PROVIDERS: Record<string, ItineraryProvider> = {
+  [serverProvider.id]: serverProvider,
+  [fixtureProvider.id]: fixtureProvider,
+};
+
+/**
+ * Returns the provider selected by VITE_ITINERARY_PROVIDER ("server" by default).
+ * Set it to "fixture" to run the app fully offline with deterministic itineraries.
+ */
+export function getItineraryProvider(): ItineraryProvider {
+  const id = import.meta.env.VITE_ITINERARY_PROVIDER || serverProvider.id;
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new Error(`Unknown itinerary provider "${id}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
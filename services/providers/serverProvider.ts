@@ -0,0 +1,126 @@
+import { auth } from '../firebase/config';
+import { GroundingChunk } from '../../types';
+import { GenerationUsage } from '../../types/usage';
+import { ItineraryProvider, GenerationRequest, GenerationResult } from './types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+/**
+ * Lines of the NDJSON stream sent by POST /api/generate when stream is true
+ */
+type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'reset' } // The server retried the model call; the text so far is discarded
+  | { type: 'done'; text: string; sources: GroundingChunk[]; model: string; usage: GenerationUsage | null; generationId: string | null }
+  | { type: 'error'; message: string };
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('You need to be signed in to generate an itinerary.');
+  }
+  return { Authorization: `Bearer ${await user.getIdToken()}` };
+}
+
+// Only the spec is sent: the server renders the prompt itself from the plan document.
+// Aborting the signal closes the connection, which also cancels the generation on the server
+async function postGenerate(request: GenerationRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${API_BASE_URL}/generate`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await getAuthHeaders()),
+    },
+    body: JSON.stringify({ planId: request.planId, spec: request.spec, lockId: request.lockId || null, stream }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Generation service returned ${response.status}. Please try again.`);
+  }
+
+  return response;
+}
+
+const generate = async (request: GenerationRequest, signal?: AbortSignal): Promise<GenerationResult> => {
+  const response = await postGenerate(request, false, signal);
+  const body = await response.json();
+  return {
+    text: body.text || '',
+    sources: body.sources || [],
+    model: body.model || serverProvider.model,
+    usage: body.usage || null,
+    generationId: body.generationId || null,
+  };
+};
+
+const generateStream = async (
+  request: GenerationRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<GenerationResult> => {
+  const response = await postGenerate(request, true, signal);
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+
+  const handleLine = (line: string): GenerationResult | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line) as StreamEvent;
+    switch (event.type) {
+      case 'text':
+        text += event.text;
+        onText(text);
+        return null;
+      case 'reset':
+        text = '';
+        return null;
+      case 'done':
+        // The final text is authoritative, so a dropped or partial chunk can't corrupt the result
+        return {
+          text: typeof event.text === 'string' ? event.text : text,
+          sources: event.sources || [],
+          model: event.model || serverProvider.model,
+          usage: event.usage || null,
+          generationId: event.generationId || null,
+        };
+      case 'error':
+        throw new Error(event.message);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+
+    for (const line of lines) {
+      const result = handleLine(line);
+      if (result) return result;
+    }
+  }
+
+  const result = handleLine(buffered);
+  if (result) return result;
+  throw new Error('The generation stream ended unexpectedly. Please try again.');
+};
+
+/**
+ * Calls the generation server (server/index.ts), which holds the Gemini key.
+ * Requests are authenticated with the signed-in creator's Firebase ID token.
+ */
+export const serverProvider: ItineraryProvider = {
+  id: 'server',
+  model: 'server', // The server decides which model to use
+  generate,
+  generateStream,
+};
@@ -0,0 +1,53 @@
+import { GroundingChunk } from '../../types';
+import { GenerationUsage } from '../../types/usage';
+
+/**
+ * What a prompt asks for, so providers that don't call a model (e.g. fixtures)
+ * can answer with the right shape
+ */
+export type GenerationKind = 'itinerary' | 'day' | 'alternatives' | 'repair';
+
+/**
+ * What the generation server needs to rebuild the prompt from the plan document.
+ * The server never forwards a client-written prompt: it renders a registered template itself,
+ * and a repair can only refer to output the server generated (parentId is GenerationResult.generationId).
+ */
+export type PromptSpec =
+  | { kind: 'itinerary'; template: string }
+  | { kind: 'day'; template: string; dayIndex: number; issues: string[] }
+  | { kind: 'alternatives'; template: string; dayIndex: number; itemIndex: number; count: number }
+  | { kind: 'repair'; parentId: string | null };
+
+export interface GenerationRequest {
+  planId: string; // Plan the generation is for; the server checks access and rate limits per plan
+  kind: GenerationKind;
+  prompt: string; // Rendered on the client for local providers; the server renders its own from spec
+  grounded: boolean; // Enable Google Search and Google Maps grounding
+  spec: PromptSpec;
+  lockId?: string | null; // The plan's generation lock, when the caller holds it; otherwise the server claims one
+}
+
+export interface GenerationResult {
+  text: string;
+  sources: GroundingChunk[];
+  model: string; // Model that produced the text
+  usage: GenerationUsage | null; // null when the provider doesn't report usage (e.g. fixtures)
+  generationId: string | null; // Set by the server; pass as a repair's parentId. null from local providers
+}
+
+export interface ItineraryProvider {
+  id: string; // Value of VITE_ITINERARY_PROVIDER that selects this provider
+  model: string; // Model name recorded alongside generated itineraries
+  /**
+   * Aborting the signal cancels the request and any pending retries, rejecting with an AbortError
+   */
+  generate: (request: GenerationRequest, signal?: AbortSignal) => Promise<GenerationResult>;
+  /**
+   * Same as generate, but calls onText with the accumulated response text as it arrives
+   */
+  generateStream: (
+    request: GenerationRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ) => Promise<GenerationResult>;
+}
@@ -1,10 +1,34 @@
 
+export type ProvenanceMethod = 'model' | 'exact' | 'fuzzy' | 'none';
+
+/**
+ * Which grounding chunk a place came from and how sure we are of it
+ * model: the model's own link is one of the grounding chunks (older plans may also have unmatched model links)
+ * exact/fuzzy: matched to a chunk by name; none: nothing backs the place
+ */
+export interface PlaceProvenance {
+  sourceIndex: number | null; // Index into the plan's sources; null when no grounding chunk backs the place
+  confidence: number; // 0-1
+  method: ProvenanceMethod;
+}
+
+/**
+ * Estimated spend per person, in the trip's cost currency (hotels: per person per night)
+ */
+export interface CostEstimate {
+  min: number;
+  max: number;
+  currency: string; // ISO 4217 code, e.g. "JPY"
+}
+
 export interface HiddenGem {
   name: string;
   location: string;
   description: string;
   googleMapsLink: string | null;
   locationUri?: string; // Optional URI for the neighborhood/location
+  provenance?: PlaceProvenance; // Set when sources are matched (missing on older plans)
+  unverifiedLink?: string; // A link the model wrote that isn't in the grounding sources, kept out of googleMapsLink
 }
 
 export interface ItineraryItem {
@@ -14,11 +38,26 @@ export interface ItineraryItem {
   description: string;
   googleMapsLink: string | null;
   locationUri?: string; // Optional URI for the neighborhood/location
+  provenance?: PlaceProvenance; // Set when sources are matched; missing for generic activities like "Lunch near the station"
+  unverifiedLink?: string;
+  estimatedCost?: CostEstimate | null; // null when the model couldn't estimate it (missing on older plans)
+  pinned?: boolean; // Booked or otherwise fixed; regenerations keep it on its day and at its time
   hiddenGem?: HiddenGem;
 }
 
+/**
+ * A pinned item and the day it's pinned to, as sent to the model when regenerating
+ */
+export interface PinnedItem {
+  dayIndex: number;
+  day: string; // Day label, e.g. "Day 2"
+  item: ItineraryItem;
+}
+
 export interface DailyPlan {
   day: string;
+  date?: string; // ISO calendar date, e.g. "2027-03-20" (missing on plans without start/end dates)
+  weekday?: string; // e.g. "Saturday"
   title: string;
   items: ItineraryItem[];
 }
@@ -28,6 +67,9 @@ export interface Hotel {
   description: string;
   location: string;
   googleMapsLink: string | null;
+  provenance?: PlaceProvenance;
+  unverifiedLink?: string;
+  estimatedCost?: CostEstimate | null;
 }
 
 export interface Itinerary {
@@ -36,6 +78,8 @@ export interface Itinerary {
   packingList: string[];
   recommendedHotels: Hotel[];
   dailyItinerary: DailyPlan[];
+  costCurrency?: string; // Destination currency all estimates use (missing on older plans)
+  exchangeRates?: Record<string, number>; // Approximate value of 1 costCurrency unit in other currencies, e.g. { USD: 0.0067 }
 }
 
 export interface GroundingChunk {
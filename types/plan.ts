@@ -1,13 +1,34 @@
-import { Itinerary, GroundingChunk } from '../types';
+import { Itinerary, GroundingChunk, Hotel, PinnedItem } from '../types';
+import { UsageTotals } from './usage';
+
+export type ConstraintKind = 'must_do' | 'veto';
+
+/**
+ * A single must-do or veto, with who asked for it
+ * Hard constraints are rules the itinerary has to follow; soft ones are strong preferences
+ */
+export interface PlanConstraint {
+  id: string;
+  text: string;
+  kind: ConstraintKind;
+  hard: boolean;
+  memberId: string | null; // null when added by the plan creator
+  addedBy: string; // Display name of the member, or "Trip creator"
+}
 
 export interface Plan {
   id: string;
   creatorId: string;
   destination: string;
-  tripDates: string;
+  tripDates: string; // Display text; derived from startDate/endDate on newer plans
+  startDate?: string | null; // ISO date, e.g. "2027-03-20" (missing on older plans)
+  endDate?: string | null; // ISO date, inclusive
+  language?: string; // Language code the itinerary is written in (missing on older plans = English)
   groupVibe: string;
-  mustDoList: string;
-  vetoList: string;
+  mustDoList: string; // Free-text must-dos, kept alongside constraints as a fallback
+  vetoList: string; // Free-text vetoes, kept alongside constraints as a fallback
+  constraints?: PlanConstraint[]; // Structured must-dos and vetoes (missing on older plans)
+  selectedHotel?: Hotel | null; // The group's base, picked by the creator; a copy, so it outlives regenerated recommendations
   inviteCode: string; // Unique 6-8 digit code
   status: 'draft' | 'active' | 'completed';
   itinerary: Itinerary | null;
@@ -15,13 +36,146 @@ export interface Plan {
   createdAt: Date;
   updatedAt: Date;
   memberIds: string[]; // Array of member document IDs
+  currentVersionId?: string | null; // Itinerary version the plan currently shows
+  usageTotals?: UsageTotals; // Token usage and estimated cost of every generation, written by the generation server
+  generation?: GenerationState; // Who is generating right now (missing on older plans = idle)
+}
+
+export type GenerationStatus = 'idle' | 'generating' | 'failed';
+
+/**
+ * Per-plan generation lock, claimed in a transaction before generating so only one
+ * itinerary or day generation runs at a time. Every open dashboard sees it via subscribeToPlan.
+ */
+export interface GenerationState {
+  status: GenerationStatus;
+  kind: 'itinerary' | 'day' | null;
+  dayIndex: number | null; // Day being regenerated when kind is 'day'
+  lockId: string | null; // Identifies the run holding the lock; null once released
+  startedById: string | null; // Firebase UID
+  startedByName: string | null; // Display name shown to everyone else, e.g. "Alex"
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  error: string | null; // Why the last run failed
 }
 
 export interface CreatePlanData {
   destination: string;
   tripDates: string;
+  startDate: string;
+  endDate: string;
+  language: string;
   groupVibe: string;
   mustDoList: string;
   vetoList: string;
 }
 
+
+/**
+ * Inputs an itinerary was generated from, recorded exactly as they were sent to the model
+ */
+export interface GenerationInputs {
+  destination: string;
+  tripDates: string;
+  startDate: string | null;
+  endDate: string | null;
+  language: string;
+  groupVibe: string;
+  mustDoList: string;
+  vetoList: string;
+  constraints: PlanConstraint[];
+  baseHotel: Hotel | null; // The plan's selected hotel, which days start and end near (missing on older versions)
+  pinnedItems: PinnedItem[]; // Pinned items sent to the model: the whole itinerary's, or just the regenerated day's (missing on older versions)
+}
+
+/**
+ * What produced a version: a full generation, a regenerated day or a swapped-in alternative
+ */
+export type ItineraryVersionKind = 'itinerary' | 'day' | 'item';
+
+/**
+ * Quality measures recorded on each version, for comparing prompt templates
+ * Places are items plus hidden gems
+ */
+export interface ItineraryQuality {
+  placeCount: number;
+  linkedPlaceCount: number; // Places with a Google Maps link
+  sourceMatchedPlaceCount: number; // Places whose link is one of the grounding sources
+  violationCount: number; // From checkItineraryConstraints
+  hardViolationCount: number;
+}
+
+/**
+ * How many of the links the model wrote itself were backed by grounding, recorded per generation
+ * Only the places that generation produced are counted (the new day or item for partial regenerations)
+ */
+export interface LinkVerificationStats {
+  modelLinkCount: number; // Places the model wrote a googleMapsLink for
+  groundedLinkCount: number; // ...whose link is one of the grounding sources
+  fabricatedLinkCount: number; // ...whose link isn't, and was moved to unverifiedLink
+  recoveredLinkCount: number; // Fabricated links replaced by a grounding source matched by name
+}
+
+/**
+ * Immutable snapshot of a plan's itinerary, stored in plans/{planId}/versions
+ */
+export interface ItineraryVersion {
+  id: string;
+  kind: ItineraryVersionKind;
+  summary: string; // e.g. "Regenerated Day 2"
+  itinerary: Itinerary;
+  sources: GroundingChunk[];
+  inputs: GenerationInputs;
+  model: string;
+  promptTemplate: string | null; // Prompt template id, e.g. "itinerary@2" (null on older versions)
+  quality: ItineraryQuality | null; // null on older versions
+  linkVerification: LinkVerificationStats | null; // null on older versions and restores
+  createdBy: string | null; // Firebase UID of the creator who generated it
+  createdAt: Date;
+}
+
+export interface CreateItineraryVersionData {
+  kind: ItineraryVersionKind;
+  summary: string;
+  inputs: GenerationInputs;
+  model: string;
+  promptTemplate: string;
+}
+
+export type VoteValue = 1 | -1;
+
+/**
+ * One member's votes on a plan's places, stored at plans/{planId}/votes/{memberId}
+ * Keyed by getPlaceKey (place kind and name), so votes follow a place when items are moved
+ */
+export interface MemberVotes {
+  memberId: string;
+  memberName: string;
+  votes: Record<string, VoteValue>;
+  updatedAt: Date;
+}
+
+export type CommentAuthorRole = 'creator' | 'member';
+
+/**
+ * Who is commenting: the creator (by Firebase UID) or a member (by member ID)
+ */
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  role: CommentAuthorRole;
+}
+
+/**
+ * A comment in a place's discussion thread, stored at plans/{planId}/comments/{commentId}
+ * threadKey is the place's getPlaceKey, so threads follow items that are moved
+ */
+export interface PlanComment {
+  id: string;
+  threadKey: string;
+  authorId: string;
+  authorName: string;
+  authorRole: CommentAuthorRole;
+  text: string;
+  createdAt: Date;
+}
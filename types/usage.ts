@@ -0,0 +1,31 @@
+/**
+ * Token and tool usage reported by the model for a single request
+ */
+export interface GenerationUsage {
+  promptTokens: number;
+  candidateTokens: number; // Output tokens
+  toolTokens: number; // Prompt tokens added by grounding tool results
+  thoughtsTokens: number; // Thinking tokens, billed as output
+  groundingCalls: number; // Search queries the model ran while grounding
+}
+
+/**
+ * Running totals, stored on the plan (usageTotals) and per creator per month
+ */
+export interface UsageTotals {
+  generations: number; // Itinerary, day and alternatives requests; repairs aren't counted
+  promptTokens: number;
+  candidateTokens: number;
+  toolTokens: number;
+  thoughtsTokens: number;
+  groundingCalls: number;
+  costUsd: number; // Estimated from list prices
+}
+
+/**
+ * A creator's usage across all their plans for one calendar month, stored in users/{uid}/usage/{period}
+ */
+export interface CreatorMonthlyUsage extends UsageTotals {
+  period: string; // "YYYY-MM" (UTC)
+  quota: number | null; // Monthly generation quota when last recorded; null when unlimited
+}
@@ -1,4 +1,6 @@
 import { MemberPreferences } from '../types/member';
+import { PlanConstraint, ConstraintKind } from '../types/plan';
+import { createConstraint, getMemberConstraintId } from './constraints';
 
 /**
  * Aggregates member preferences into a group vibe string
@@ -47,48 +49,37 @@ export function aggregateGroupVibe(
 }
 
 /**
- * Aggregates must-do items from all members
+ * Builds the structured must-do and veto constraints from every member's preferences.
+ * Constraints added by the creator are kept as they are. Member constraints are rebuilt
+ * from the current preferences, keeping the hard/soft setting of ones that already existed.
+ * Member vetoes default to hard rules and member must-dos to soft preferences.
  */
-export function aggregateMustDo(
-  preferences: MemberPreferences[],
-  baseMustDo: string
-): string {
-  const memberMustDos = preferences.flatMap((p) => p.mustDo || []).filter(Boolean);
-  
-  if (memberMustDos.length === 0) {
-    return baseMustDo;
-  }
+export function aggregateConstraints(
+  members: { id: string; name: string; preferences: MemberPreferences }[],
+  existing: PlanConstraint[]
+): PlanConstraint[] {
+  const existingById = new Map(existing.map((constraint) => [constraint.id, constraint]));
+  const creatorConstraints = existing.filter((constraint) => constraint.memberId === null);
 
-  // Combine base must-do with member must-dos
-  const allMustDos = baseMustDo 
-    ? [baseMustDo, ...memberMustDos]
-    : memberMustDos;
+  const memberConstraints: PlanConstraint[] = [];
+  for (const member of members) {
+    const entries: [ConstraintKind, string[]][] = [
+      ['must_do', member.preferences.mustDo || []],
+      ['veto', member.preferences.veto || []],
+    ];
 
-  // Remove duplicates and join
-  const uniqueMustDos = [...new Set(allMustDos)];
-  return uniqueMustDos.join(', ');
-}
+    for (const [kind, texts] of entries) {
+      for (const text of texts.map((t) => t.trim()).filter(Boolean)) {
+        const id = getMemberConstraintId(member.id, kind, text);
+        if (memberConstraints.some((constraint) => constraint.id === id)) continue;
 
-/**
- * Aggregates veto items from all members
- */
-export function aggregateVeto(
-  preferences: MemberPreferences[],
-  baseVeto: string
-): string {
-  const memberVetos = preferences.flatMap((p) => p.veto || []).filter(Boolean);
-  
-  if (memberVetos.length === 0) {
-    return baseVeto;
+        const previous = existingById.get(id);
+        memberConstraints.push(
+          createConstraint(text, kind, previous ? previous.hard : kind === 'veto', member)
+        );
+      }
+    }
   }
 
-  // Combine base veto with member vetos
-  const allVetos = baseVeto 
-    ? [baseVeto, ...memberVetos]
-    : memberVetos;
-
-  // Remove duplicates and join
-  const uniqueVetos = [...new Set(allVetos)];
-  return uniqueVetos.join(', ');
+  return [...creatorConstraints, ...memberConstraints];
 }
-
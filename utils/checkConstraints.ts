@@ -0,0 +1,261 @@
+import { Itinerary, ItineraryItem } from '../types';
+import { PlanConstraint, ConstraintKind } from '../types/plan';
+
+export type ViolationType = 'too_early' | 'too_late' | 'vetoed_keyword' | 'missing_must_do';
+
+export interface ConstraintViolation {
+  constraintId: string;
+  constraintText: string;
+  kind: ConstraintKind;
+  hard: boolean;
+  type: ViolationType;
+  dayIndex: number | null; // null for must-dos missing from the whole trip
+  itemIndex: number | null;
+  message: string;
+}
+
+export interface ConstraintReport {
+  violations: ConstraintViolation[];
+  hardViolationCount: number;
+  checkedConstraintCount: number;
+}
+
+// Words that carry no meaning for keyword matching ("no plans involving museums" -> "museums")
+const STOP_WORDS = new Set([
+  'no', 'not', 'none', 'avoid', 'skip', 'without', 'dont', 'do', 'never', 'please', 'any', 'anything',
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'we', 'i', 'us',
+  'plans', 'plan', 'activities', 'activity', 'places', 'place', 'stuff', 'things', 'too', 'much', 'many',
+  'must', 'want', 'visit', 'see', 'go', 'try', 'have', 'get', 'some',
+]);
+
+const EARLY_MORNING_LIMIT = 9 * 60; // "no early mornings" = nothing before 9:00 AM
+const LATE_NIGHT_LIMIT = 22 * 60; // "no late nights" = nothing after 10:00 PM
+
+/**
+ * Parses an itinerary time like "10:30 AM", "9am", "14:00", "noon" or "midnight"
+ * Returns minutes since midnight, or null for times like "Evening" that aren't clock times
+ */
+export function parseItemTime(time: string): number | null {
+  const normalized = time.trim().toLowerCase();
+  if (normalized === 'noon' || normalized.startsWith('noon ')) return 12 * 60;
+  if (normalized === 'midnight') return 0;
+
+  // Ranges such as "10:00 AM - 12:00 PM" use their start time
+  const match = normalized.match(/(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.replace(/\./g, '');
+
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+interface TimeRule {
+  type: 'too_early' | 'too_late';
+  limit: number;
+}
+
+/**
+ * Recognizes time-based vetoes: "no plans before 10:00 AM", "nothing after 9pm",
+ * "no early mornings", "no late nights"
+ */
+function parseTimeRule(text: string): TimeRule | null {
+  const normalized = text.toLowerCase();
+
+  const explicit = normalized.match(/\b(before|earlier than|after|later than|past)\s+(\d{1,2}(?:[:.]\d{2})?\s*(?:a\.?m\.?|p\.?m\.?)?|noon|midnight)/);
+  if (explicit) {
+    const limit = parseItemTime(explicit[2]);
+    if (limit !== null) {
+      const isBefore = explicit[1] === 'before' || explicit[1] === 'earlier than';
+      return { type: isBefore ? 'too_early' : 'too_late', limit };
+    }
+  }
+
+  if (/\bearly (mornings?|starts?|wake[- ]?ups?)\b/.test(normalized)) {
+    return { type: 'too_early', limit: EARLY_MORNING_LIMIT };
+  }
+  if (/\blate nights?\b/.test(normalized)) {
+    return { type: 'too_late', limit: LATE_NIGHT_LIMIT };
+  }
+
+  return null;
+}
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Plural-insensitive stem, so "museums" matches "museum" and "bars" matches "bar"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('es') && /(ch|sh|x|s)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Splits a constraint into alternative keyword groups: "clubs or bars" -> [["club"], ["bar"]]
+ */
+function getKeywordGroups(text: string): string[][] {
+  return text
+    .toLowerCase()
+    .split(/\s*(?:,|\/|\bor\b|\band\b|&)\s*/)
+    .map((part) => toWords(part).filter((word) => word.length > 2 && !STOP_WORDS.has(word)).map(stem))
+    .filter((group) => group.length > 0);
+}
+
+function getItemText(item: ItineraryItem, includeHiddenGem: boolean): Set<string> {
+  const parts = [item.activity, item.location, item.description];
+  if (includeHiddenGem && item.hiddenGem) {
+    parts.push(item.hiddenGem.name, item.hiddenGem.description);
+  }
+  return new Set(toWords(parts.join(' ')).map(stem));
+}
+
+/**
+ * Vetoes need every keyword of a group to match, to avoid flagging innocent items.
+ * Must-dos only need half, since requests like "Senso-ji at sunrise" carry extra detail.
+ */
+function matchesKeywords(words: Set<string>, groups: string[][], minShare: number = 1): boolean {
+  return groups.some((group) =>
+    group.filter((keyword) => words.has(keyword)).length >= Math.ceil(group.length * minShare)
+  );
+}
+
+/**
+ * Free-text must-do and veto lists are checked too, as soft constraints, so plans
+ * that haven't moved to structured constraints still get a report
+ */
+function freeTextConstraints(text: string, kind: ConstraintKind): PlanConstraint[] {
+  return (text || '')
+    .split(/[,;\n]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => ({
+      id: `notes:${kind}:${index}`,
+      text: entry,
+      kind,
+      hard: false,
+      memberId: null,
+      addedBy: 'Notes',
+    }));
+}
+
+/**
+ * Checks a parsed itinerary against the group's constraints.
+ * - Time-based vetoes are evaluated against each item's parsed time.
+ * - Other vetoes are matched as keywords against activity, location and description.
+ * - Every must-do has to match at least one item (including hidden gems) somewhere in the trip.
+ * Matching is keyword based, so the report flags likely problems rather than proving compliance.
+ */
+export function checkItineraryConstraints(
+  itinerary: Itinerary,
+  constraints: PlanConstraint[],
+  mustDoList: string = '',
+  vetoList: string = ''
+): ConstraintReport {
+  const allConstraints = [
+    ...constraints,
+    ...freeTextConstraints(mustDoList, 'must_do'),
+    ...freeTextConstraints(vetoList, 'veto'),
+  ];
+  const violations: ConstraintViolation[] = [];
+
+  const violation = (
+    constraint: PlanConstraint,
+    type: ViolationType,
+    dayIndex: number | null,
+    itemIndex: number | null,
+    message: string
+  ): ConstraintViolation => ({
+    constraintId: constraint.id,
+    constraintText: constraint.text,
+    kind: constraint.kind,
+    hard: constraint.hard,
+    type,
+    dayIndex,
+    itemIndex,
+    message,
+  });
+
+  for (const constraint of allConstraints) {
+    if (constraint.kind === 'veto') {
+      const timeRule = parseTimeRule(constraint.text);
+
+      itinerary.dailyItinerary.forEach((day, dayIndex) => {
+        day.items.forEach((item, itemIndex) => {
+          if (timeRule) {
+            const minutes = parseItemTime(item.time);
+            if (minutes === null) return;
+
+            const breaksRule = timeRule.type === 'too_early' ? minutes < timeRule.limit : minutes > timeRule.limit;
+            if (breaksRule) {
+              violations.push(violation(
+                constraint,
+                timeRule.type,
+                dayIndex,
+                itemIndex,
+                `${item.activity} starts at ${item.time}, ${timeRule.type === 'too_early' ? 'before' : 'after'} ${formatMinutes(timeRule.limit)}`
+              ));
+            }
+            return;
+          }
+
+          const groups = getKeywordGroups(constraint.text);
+          if (groups.length > 0 && matchesKeywords(getItemText(item, false), groups)) {
+            violations.push(violation(
+              constraint,
+              'vetoed_keyword',
+              dayIndex,
+              itemIndex,
+              `${item.activity} looks like something vetoed: "${constraint.text}"`
+            ));
+          }
+        });
+      });
+    } else {
+      const groups = getKeywordGroups(constraint.text);
+      if (groups.length === 0) continue;
+
+      const isIncluded = itinerary.dailyItinerary.some((day) =>
+        day.items.some((item) => matchesKeywords(getItemText(item, true), groups, 0.5))
+      );
+      if (!isIncluded) {
+        violations.push(violation(
+          constraint,
+          'missing_must_do',
+          null,
+          null,
+          `"${constraint.text}" isn't in the itinerary`
+        ));
+      }
+    }
+  }
+
+  return {
+    violations,
+    hardViolationCount: violations.filter((v) => v.hard).length,
+    checkedConstraintCount: allConstraints.length,
+  };
+}
@@ -0,0 +1,62 @@
+import { DailyPlan } from '../types';
+import { PlanComment } from '../types/plan';
+import { getPlaceKey } from './placeKey';
+
+/**
+ * When this viewer last saw each thread (ms since epoch), keyed by thread key
+ */
+export type ReadMarkers = Record<string, number>;
+
+const readMarkersKey = (planId: string, viewerId: string) => `atlas:comments-read:${planId}:${viewerId}`;
+
+export function groupCommentsByThread(comments: PlanComment[]): Record<string, PlanComment[]> {
+  const threads: Record<string, PlanComment[]> = {};
+  for (const comment of comments) {
+    (threads[comment.threadKey] || (threads[comment.threadKey] = [])).push(comment);
+  }
+  return threads;
+}
+
+/**
+ * Comments by other people posted since the viewer last opened the thread.
+ * Viewers who can't be identified have nothing unread.
+ */
+export function countUnread(comments: PlanComment[] | undefined, lastReadAt: number | undefined, viewerId: string | null): number {
+  if (!comments || !viewerId) return 0;
+  return comments.filter((comment) => comment.authorId !== viewerId && comment.createdAt.getTime() > (lastReadAt ?? 0)).length;
+}
+
+/**
+ * Unread comments across all of a day's items
+ */
+export function countDayUnread(
+  day: DailyPlan,
+  commentsByThread: Record<string, PlanComment[]>,
+  readMarkers: ReadMarkers,
+  viewerId: string | null
+): number {
+  const threadKeys = new Set(day.items.map((item) => getPlaceKey('item', item.activity)));
+  return [...threadKeys].reduce(
+    (total, threadKey) => total + countUnread(commentsByThread[threadKey], readMarkers[threadKey], viewerId),
+    0
+  );
+}
+
+/**
+ * Read markers are kept per browser, like the member session, so reading a thread doesn't write to Firestore
+ */
+export function loadReadMarkers(planId: string, viewerId: string): ReadMarkers {
+  try {
+    return JSON.parse(localStorage.getItem(readMarkersKey(planId, viewerId)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveReadMarkers(planId: string, viewerId: string, markers: ReadMarkers): void {
+  try {
+    localStorage.setItem(readMarkersKey(planId, viewerId), JSON.stringify(markers));
+  } catch (e) {
+    console.warn('Could not save comment read markers:', e);
+  }
+}
@@ -0,0 +1,46 @@
+import { PlanConstraint, ConstraintKind } from '../types/plan';
+
+export const CREATOR_LABEL = 'Trip creator';
+
+function normalizeConstraintText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Member-derived constraints get a stable ID so re-aggregating preferences
+ * finds the same constraint again and keeps its hard/soft setting
+ */
+export function getMemberConstraintId(memberId: string, kind: ConstraintKind, text: string): string {
+  return `member:${memberId}:${kind}:${normalizeConstraintText(text)}`;
+}
+
+/**
+ * Create a constraint added by the creator (member is omitted) or by a member
+ */
+export function createConstraint(
+  text: string,
+  kind: ConstraintKind,
+  hard: boolean,
+  member?: { id: string; name: string }
+): PlanConstraint {
+  return {
+    id: member
+      ? getMemberConstraintId(member.id, kind, text)
+      : `creator:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 8)}`,
+    text: text.trim(),
+    kind,
+    hard,
+    memberId: member ? member.id : null,
+    addedBy: member ? member.name : CREATOR_LABEL,
+  };
+}
+
+/**
+ * True if an equivalent constraint (same kind and text) is already in the list
+ */
+export function hasConstraint(constraints: PlanConstraint[], kind: ConstraintKind, text: string): boolean {
+  const normalized = normalizeConstraintText(text);
+  return constraints.some(
+    (constraint) => constraint.kind === kind && normalizeConstraintText(constraint.text) === normalized
+  );
+}
@@ -0,0 +1,236 @@
+import { Itinerary, DailyPlan, Hotel, CostEstimate } from '../types';
+
+/**
+ * A min-max amount in a known currency
+ */
+export interface CostRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Estimated spend per person for the whole trip, in the trip's cost currency
+ */
+export interface TripCostSummary {
+  currency: string;
+  dayTotals: (CostRange | null)[]; // Activities per day; null when nothing on that day has an estimate
+  activities: CostRange;
+  lodging: CostRange | null; // Selected (or else cheapest recommended) hotel for every night; null when no hotel has an estimate
+  lodgingHotel: string | null;
+  nights: number;
+  total: CostRange;
+  perDay: CostRange; // total spread evenly over the trip's days
+  estimatedItemCount: number;
+  itemCount: number;
+}
+
+export type BudgetPeriod = 'day' | 'trip';
+
+/**
+ * A member's free-text budget (e.g. "$100-200 per day") read as numbers
+ */
+export interface MemberBudget {
+  min: number | null;
+  max: number;
+  currency: string;
+  currencyAssumed: boolean; // No currency was given, so USD is assumed
+  period: BudgetPeriod;
+  periodAssumed: boolean; // Neither "per day" nor "total" was given, so per day is assumed
+}
+
+export type BudgetStatus = 'within' | 'may_exceed' | 'over' | 'unknown';
+
+export interface BudgetComparison {
+  status: BudgetStatus;
+  budget: MemberBudget | null;
+  estimate: CostRange | null; // The plan's cost in the budget's currency and period
+  reason: string | null; // Why the status is unknown
+}
+
+const DEFAULT_BUDGET_CURRENCY = 'USD';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₩': 'KRW',
+  '₹': 'INR',
+  '฿': 'THB',
+};
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: 'USD',
+  dollars: 'USD',
+  euro: 'EUR',
+  euros: 'EUR',
+  pound: 'GBP',
+  pounds: 'GBP',
+  yen: 'JPY',
+};
+
+// Codes recognized in budget text; any other three-letter word (like "day") is not a currency
+const CURRENCY_CODES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'NZD', 'CHF', 'CNY', 'HKD', 'SGD',
+  'KRW', 'INR', 'THB', 'MXN', 'BRL', 'SEK', 'NOK', 'DKK', 'TWD', 'IDR', 'VND',
+];
+
+/**
+ * Converts an estimate into the trip's cost currency, using the itinerary's exchange rates when it was priced in another one
+ */
+function toTripCurrency(estimate: CostEstimate, currency: string, itinerary: Itinerary): CostRange | null {
+  if (estimate.currency === currency) {
+    return { min: estimate.min, max: estimate.max };
+  }
+  const rate = itinerary.exchangeRates?.[estimate.currency];
+  return rate ? { min: estimate.min / rate, max: estimate.max / rate } : null;
+}
+
+function addRanges(ranges: CostRange[]): CostRange {
+  return ranges.reduce((sum, range) => ({ min: sum.min + range.min, max: sum.max + range.max }), { min: 0, max: 0 });
+}
+
+/**
+ * Currency every estimate is totalled in: the itinerary's costCurrency, or the first estimate's on older itineraries
+ */
+export function getTripCurrency(itinerary: Itinerary): string | null {
+  if (itinerary.costCurrency) return itinerary.costCurrency;
+  const estimates = [
+    ...(itinerary.recommendedHotels || []).map((hotel) => hotel.estimatedCost),
+    ...(itinerary.dailyItinerary || []).flatMap((day) => (day.items || []).map((item) => item.estimatedCost)),
+  ];
+  return estimates.find((estimate) => estimate)?.currency || null;
+}
+
+/**
+ * Per-person cost of one day's items; null when none of them has an estimate
+ */
+export function getDayCost(day: DailyPlan, itinerary: Itinerary): CostRange | null {
+  const currency = getTripCurrency(itinerary);
+  if (!currency) return null;
+
+  const ranges = (day.items || [])
+    .map((item) => (item.estimatedCost ? toTripCurrency(item.estimatedCost, currency, itinerary) : null))
+    .filter((range): range is CostRange => range !== null);
+  return ranges.length > 0 ? addRanges(ranges) : null;
+}
+
+/**
+ * Per-person cost of the whole trip: every item plus a hotel for each night.
+ * Lodging is priced at the plan's selected hotel when it has an estimate, or else the cheapest recommended one.
+ * Returns null when the itinerary has no estimates (e.g. it was generated before cost estimates existed).
+ */
+export function getTripCost(itinerary: Itinerary, selectedHotel: Hotel | null = null): TripCostSummary | null {
+  const currency = getTripCurrency(itinerary);
+  if (!currency) return null;
+
+  const dayTotals = itinerary.dailyItinerary.map((day) => getDayCost(day, itinerary));
+  const items = itinerary.dailyItinerary.flatMap((day) => day.items);
+
+  const pricedHotels = itinerary.recommendedHotels
+    .map((hotel) => ({ hotel, perNight: hotel.estimatedCost ? toTripCurrency(hotel.estimatedCost, currency, itinerary) : null }))
+    .filter((entry): entry is { hotel: Hotel; perNight: CostRange } => entry.perNight !== null)
+    .sort((a, b) => a.perNight.min - b.perNight.min);
+  const selectedPerNight = selectedHotel?.estimatedCost ? toTripCurrency(selectedHotel.estimatedCost, currency, itinerary) : null;
+  const lodgingHotel = selectedHotel && selectedPerNight ? { hotel: selectedHotel, perNight: selectedPerNight } : pricedHotels[0] || null;
+  const nights = Math.max(itinerary.dailyItinerary.length - 1, 0);
+  const lodging = lodgingHotel
+    ? { min: lodgingHotel.perNight.min * nights, max: lodgingHotel.perNight.max * nights }
+    : null;
+
+  const activities = addRanges(dayTotals.filter((total): total is CostRange => total !== null));
+  const total = addRanges(lodging ? [activities, lodging] : [activities]);
+  const dayCount = Math.max(itinerary.dailyItinerary.length, 1);
+
+  return {
+    currency,
+    dayTotals,
+    activities,
+    lodging,
+    lodgingHotel: lodgingHotel?.hotel.name || null,
+    nights,
+    total,
+    perDay: { min: total.min / dayCount, max: total.max / dayCount },
+    estimatedItemCount: items.filter((item) => item.estimatedCost).length,
+    itemCount: items.length,
+  };
+}
+
+/**
+ * Reads a member's free-text budget, e.g. "$100-200 per day", "under 1500 EUR total" or "¥20,000/day".
+ * Returns null when there is no amount to compare against (e.g. "moderate").
+ */
+export function parseBudget(text: string | undefined): MemberBudget | null {
+  if (!text) return null;
+
+  const amounts = [...text.matchAll(/(\d[\d,]*(?:\.\d+)?)\s*(k)?\b/gi)].map((match) => {
+    const value = Number(match[1].replace(/,/g, ''));
+    return match[2] ? value * 1000 : value;
+  }).filter((value) => Number.isFinite(value) && value > 0);
+  if (amounts.length === 0) return null;
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((candidate) => text.includes(candidate));
+  const code = text.toUpperCase().match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`))?.[1];
+  const word = text.toLowerCase().match(/\b(dollars?|euros?|pounds?|yen)\b/)?.[1];
+  const currency = code || (symbol && CURRENCY_SYMBOLS[symbol]) || (word && CURRENCY_WORDS[word]) || null;
+
+  const lower = text.toLowerCase();
+  const isPerDay = /(per|a|each|\/)\s*(day|night)|daily/.test(lower);
+  const isTotal = /total|trip|overall|whole|entire|altogether/.test(lower);
+
+  const [first, second] = amounts;
+  return {
+    min: second !== undefined ? Math.min(first, second) : null,
+    max: second !== undefined ? Math.max(first, second) : first,
+    currency: currency || DEFAULT_BUDGET_CURRENCY,
+    currencyAssumed: !currency,
+    period: isTotal && !isPerDay ? 'trip' : 'day',
+    periodAssumed: !isPerDay && !isTotal,
+  };
+}
+
+/**
+ * Compares the plan's per-person cost with a member's budget, in the budget's currency and period.
+ * "over" means even the low estimate is above the budget; "may_exceed" means only the high estimate is.
+ */
+export function compareToBudget(
+  summary: TripCostSummary | null,
+  budgetText: string | undefined,
+  itinerary: Itinerary
+): BudgetComparison {
+  const budget = parseBudget(budgetText);
+  if (!budget) {
+    return { status: 'unknown', budget: null, estimate: null, reason: budgetText ? 'Budget has no amount to compare' : 'No budget given' };
+  }
+  if (!summary) {
+    return { status: 'unknown', budget, estimate: null, reason: 'This itinerary has no cost estimates yet' };
+  }
+
+  const rate = budget.currency === summary.currency ? 1 : itinerary.exchangeRates?.[budget.currency];
+  if (!rate) {
+    return { status: 'unknown', budget, estimate: null, reason: `No exchange rate from ${summary.currency} to ${budget.currency}` };
+  }
+
+  const cost = budget.period === 'day' ? summary.perDay : summary.total;
+  const estimate = { min: cost.min * rate, max: cost.max * rate };
+  const status: BudgetStatus = estimate.min > budget.max ? 'over' : estimate.max > budget.max ? 'may_exceed' : 'within';
+  return { status, budget, estimate, reason: null };
+}
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    // Unknown currency codes
+    return `${Math.round(amount).toLocaleString('en-US')} ${currency}`;
+  }
+}
+
+/**
+ * e.g. "¥1,500–¥3,000", "Free" or a single amount when min and max match
+ */
+export function formatCostRange(range: CostRange, currency: string): string {
+  if (range.max === 0) return 'Free';
+  if (Math.round(range.min) === Math.round(range.max)) return formatAmount(range.max, currency);
+  return `${formatAmount(range.min, currency)}–${formatAmount(range.max, currency)}`;
+}
@@ -0,0 +1,236 @@
+import { Itinerary, ItineraryItem, Hotel } from '../types';
+
+export type ItemChangeStatus = 'unchanged' | 'added' | 'removed' | 'moved' | 'retimed';
+
+export interface ItemPosition {
+  dayIndex: number;
+  day: string; // Day label, e.g. "Day 2"
+  time: string;
+}
+
+export interface ItemDiff {
+  status: ItemChangeStatus;
+  item: ItineraryItem;
+  before: ItemPosition | null; // null when added
+  after: ItemPosition | null; // null when removed
+}
+
+/**
+ * One day of the diff, with the items of both sides in their original order.
+ * A moved item appears on the "before" side of its old day and the "after" side of its new day.
+ */
+export interface DayDiff {
+  dayIndex: number;
+  beforeLabel: string | null; // null when the day only exists in the newer itinerary
+  afterLabel: string | null; // null when the day only exists in the older itinerary
+  beforeTitle: string | null;
+  afterTitle: string | null;
+  before: ItemDiff[];
+  after: ItemDiff[];
+  hasChanges: boolean;
+}
+
+export interface HotelDiff {
+  added: Hotel[];
+  removed: Hotel[];
+  unchanged: Hotel[];
+}
+
+export interface PackingListDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface ItineraryDiff {
+  days: DayDiff[];
+  hotels: HotelDiff;
+  packingList: PackingListDiff;
+  counts: Record<Exclude<ItemChangeStatus, 'unchanged'>, number>;
+  hasChanges: boolean;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reduces a Google Maps link to the part that identifies the place.
+ * Place IDs and CIDs win; otherwise the zoom level, query string and protocol are dropped
+ * so the same place linked at a different zoom still matches.
+ */
+function normalizeLink(link: string | null | undefined): string | null {
+  if (!link) return null;
+
+  const placeId = link.match(/(?:query_place_id=|place_id[:=])([\w-]+)/);
+  if (placeId) return `place_id:${placeId[1]}`;
+
+  const cid = link.match(/[?&]cid=(\d+)/);
+  if (cid) return `cid:${cid[1]}`;
+
+  return link
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\?.*$/, '')
+    .replace(/(@[-\d.]+,[-\d.]+),[\d.]+z/, '$1')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Two places are the same if their names match after normalization, or they link to the same map location
+ */
+function isSamePlace(
+  a: { name: string; link: string | null | undefined },
+  b: { name: string; link: string | null | undefined }
+): boolean {
+  const nameA = normalizeName(a.name);
+  if (nameA && nameA === normalizeName(b.name)) return true;
+
+  const linkA = normalizeLink(a.link);
+  return linkA !== null && linkA === normalizeLink(b.link);
+}
+
+interface LocatedItem {
+  item: ItineraryItem;
+  position: ItemPosition;
+}
+
+function locateItems(itinerary: Itinerary): LocatedItem[] {
+  return itinerary.dailyItinerary.flatMap((day, dayIndex) =>
+    day.items.map((item) => ({
+      item,
+      position: { dayIndex, day: day.day, time: item.time },
+    }))
+  );
+}
+
+function isSameTime(a: string, b: string): boolean {
+  return a.replace(/\s+/g, '').toLowerCase() === b.replace(/\s+/g, '').toLowerCase();
+}
+
+function diffHotels(before: Hotel[], after: Hotel[]): HotelDiff {
+  const toPlace = (hotel: Hotel) => ({ name: hotel.name, link: hotel.googleMapsLink });
+  return {
+    added: after.filter((hotel) => !before.some((other) => isSamePlace(toPlace(hotel), toPlace(other)))),
+    removed: before.filter((hotel) => !after.some((other) => isSamePlace(toPlace(hotel), toPlace(other)))),
+    unchanged: after.filter((hotel) => before.some((other) => isSamePlace(toPlace(hotel), toPlace(other)))),
+  };
+}
+
+function diffPackingList(before: string[], after: string[]): PackingListDiff {
+  const beforeKeys = new Set(before.map(normalizeName));
+  const afterKeys = new Set(after.map(normalizeName));
+  return {
+    added: after.filter((entry) => !beforeKeys.has(normalizeName(entry))),
+    removed: before.filter((entry) => !afterKeys.has(normalizeName(entry))),
+    unchanged: after.filter((entry) => beforeKeys.has(normalizeName(entry))),
+  };
+}
+
+/**
+ * Compares two itineraries place by place.
+ * Items are matched by name or Google Maps link rather than array position, so an item that
+ * moved to another day shows up as "moved" and a rescheduled one as "retimed".
+ * Prefers a match on the same day when a place appears more than once.
+ */
+export function diffItineraries(before: Itinerary, after: Itinerary): ItineraryDiff {
+  const beforeItems = locateItems(before);
+  const afterItems = locateItems(after);
+
+  // Index of the matching after-item for every before-item, or -1 when removed
+  const matches: number[] = beforeItems.map(() => -1);
+  const matchedAfter = new Set<number>();
+
+  const toPlace = (located: LocatedItem) => ({ name: located.item.activity, link: located.item.googleMapsLink });
+  const findMatch = (beforeIndex: number, sameDayOnly: boolean) =>
+    afterItems.findIndex((candidate, afterIndex) =>
+      !matchedAfter.has(afterIndex) &&
+      (!sameDayOnly || candidate.position.dayIndex === beforeItems[beforeIndex].position.dayIndex) &&
+      isSamePlace(toPlace(beforeItems[beforeIndex]), toPlace(candidate))
+    );
+
+  // Same-day matches first, then anything left over counts as a move
+  for (const sameDayOnly of [true, false]) {
+    beforeItems.forEach((_, beforeIndex) => {
+      if (matches[beforeIndex] !== -1) return;
+      const afterIndex = findMatch(beforeIndex, sameDayOnly);
+      if (afterIndex !== -1) {
+        matches[beforeIndex] = afterIndex;
+        matchedAfter.add(afterIndex);
+      }
+    });
+  }
+
+  const statusOf = (beforePosition: ItemPosition, afterPosition: ItemPosition): ItemChangeStatus => {
+    if (beforePosition.dayIndex !== afterPosition.dayIndex) return 'moved';
+    if (!isSameTime(beforePosition.time, afterPosition.time)) return 'retimed';
+    return 'unchanged';
+  };
+
+  const beforeDiffs: ItemDiff[] = beforeItems.map((located, beforeIndex) => {
+    const match = matches[beforeIndex] === -1 ? null : afterItems[matches[beforeIndex]];
+    return {
+      status: match ? statusOf(located.position, match.position) : 'removed',
+      item: located.item,
+      before: located.position,
+      after: match ? match.position : null,
+    };
+  });
+
+  const afterDiffs: ItemDiff[] = afterItems.map((located, afterIndex) => {
+    const beforeIndex = matches.indexOf(afterIndex);
+    const match = beforeIndex === -1 ? null : beforeItems[beforeIndex];
+    return {
+      status: match ? statusOf(match.position, located.position) : 'added',
+      item: located.item,
+      before: match ? match.position : null,
+      after: located.position,
+    };
+  });
+
+  const dayCount = Math.max(before.dailyItinerary.length, after.dailyItinerary.length);
+  const days: DayDiff[] = Array.from({ length: dayCount }, (_, dayIndex) => {
+    const beforeDay = before.dailyItinerary[dayIndex];
+    const afterDay = after.dailyItinerary[dayIndex];
+    const dayBefore = beforeDiffs.filter((diff) => diff.before!.dayIndex === dayIndex);
+    const dayAfter = afterDiffs.filter((diff) => diff.after!.dayIndex === dayIndex);
+
+    return {
+      dayIndex,
+      beforeLabel: beforeDay?.day ?? null,
+      afterLabel: afterDay?.day ?? null,
+      beforeTitle: beforeDay?.title ?? null,
+      afterTitle: afterDay?.title ?? null,
+      before: dayBefore,
+      after: dayAfter,
+      hasChanges:
+        beforeDay?.title !== afterDay?.title ||
+        [...dayBefore, ...dayAfter].some((diff) => diff.status !== 'unchanged'),
+    };
+  });
+
+  const hotels = diffHotels(before.recommendedHotels || [], after.recommendedHotels || []);
+  const packingList = diffPackingList(before.packingList || [], after.packingList || []);
+
+  const counts = {
+    added: afterDiffs.filter((diff) => diff.status === 'added').length,
+    removed: beforeDiffs.filter((diff) => diff.status === 'removed').length,
+    moved: afterDiffs.filter((diff) => diff.status === 'moved').length,
+    retimed: afterDiffs.filter((diff) => diff.status === 'retimed').length,
+  };
+
+  return {
+    days,
+    hotels,
+    packingList,
+    counts,
+    hasChanges:
+      days.some((day) => day.hasChanges) ||
+      hotels.added.length + hotels.removed.length + packingList.added.length + packingList.removed.length > 0,
+  };
+}
@@ -0,0 +1,90 @@
+import { Itinerary, ItineraryItem } from '../types';
+import { getPlaceKey } from './placeKey';
+
+/**
+ * Position of an item within the itinerary
+ */
+export interface ItemPosition {
+  dayIndex: number;
+  itemIndex: number;
+}
+
+/**
+ * Fields the editor lets the creator change on an existing item
+ */
+export type EditableItemFields = Pick<ItineraryItem, 'time' | 'activity' | 'location' | 'description'>;
+
+function replaceDayItems(itinerary: Itinerary, dayIndex: number, items: ItineraryItem[]): Itinerary {
+  const dailyItinerary = [...itinerary.dailyItinerary];
+  dailyItinerary[dayIndex] = { ...dailyItinerary[dayIndex], items };
+  return { ...itinerary, dailyItinerary };
+}
+
+/**
+ * Moves an item within its day or to another day.
+ * to.itemIndex is the position in the target day before the move, so dropping an item
+ * onto the item after it in the same day leaves the order unchanged.
+ */
+export function moveItem(itinerary: Itinerary, from: ItemPosition, to: ItemPosition): Itinerary {
+  const item = itinerary.dailyItinerary[from.dayIndex]?.items[from.itemIndex];
+  if (!item || !itinerary.dailyItinerary[to.dayIndex]) return itinerary;
+
+  const sourceItems = [...itinerary.dailyItinerary[from.dayIndex].items];
+  sourceItems.splice(from.itemIndex, 1);
+  const withoutItem = replaceDayItems(itinerary, from.dayIndex, sourceItems);
+
+  let insertIndex = to.itemIndex;
+  if (from.dayIndex === to.dayIndex && from.itemIndex < to.itemIndex) {
+    insertIndex -= 1;
+  }
+  const targetItems = [...withoutItem.dailyItinerary[to.dayIndex].items];
+  targetItems.splice(Math.max(0, Math.min(insertIndex, targetItems.length)), 0, item);
+  return replaceDayItems(withoutItem, to.dayIndex, targetItems);
+}
+
+/**
+ * Applies the creator's changes to an item. Renaming it or changing its location makes it a
+ * different place, so its map link, provenance and any quarantined link are dropped with it.
+ */
+export function updateItem(itinerary: Itinerary, position: ItemPosition, changes: Partial<EditableItemFields>): Itinerary {
+  const items = [...itinerary.dailyItinerary[position.dayIndex].items];
+  const item = items[position.itemIndex];
+  const renamed = changes.activity !== undefined && changes.activity !== item.activity;
+  const relocated = changes.location !== undefined && changes.location !== item.location;
+
+  if (renamed || relocated) {
+    const { provenance, unverifiedLink, ...rest } = item;
+    const updated: ItineraryItem = { ...rest, ...changes, googleMapsLink: null };
+    if (relocated) {
+      delete updated.locationUri; // Points at the old neighborhood
+    }
+    items[position.itemIndex] = updated;
+  } else {
+    items[position.itemIndex] = { ...item, ...changes };
+  }
+  return replaceDayItems(itinerary, position.dayIndex, items);
+}
+
+/**
+ * Names of places in the original itinerary that the edited one no longer has, e.g. after a rename.
+ * Votes and comment threads are keyed by place name (see getPlaceKey), so they stay with the old name.
+ */
+export function getDroppedPlaceNames(original: Itinerary, edited: Itinerary): string[] {
+  const editedKeys = new Set(edited.dailyItinerary.flatMap((day) => day.items.map((item) => getPlaceKey('item', item.activity))));
+  const dropped = original.dailyItinerary
+    .flatMap((day) => day.items.map((item) => item.activity))
+    .filter((activity) => !editedKeys.has(getPlaceKey('item', activity)));
+  return [...new Set(dropped)];
+}
+
+/**
+ * Appends an item the creator wrote themselves. It has no provenance, so no grounding badge is shown for it.
+ */
+export function addItem(itinerary: Itinerary, dayIndex: number, item: ItineraryItem): Itinerary {
+  return replaceDayItems(itinerary, dayIndex, [...itinerary.dailyItinerary[dayIndex].items, item]);
+}
+
+export function removeItem(itinerary: Itinerary, position: ItemPosition): Itinerary {
+  const items = itinerary.dailyItinerary[position.dayIndex].items.filter((_, index) => index !== position.itemIndex);
+  return replaceDayItems(itinerary, position.dayIndex, items);
+}
@@ -0,0 +1,63 @@
+import { GenerationState } from '../types/plan';
+
+// A lock older than this is treated as abandoned (e.g. the tab was closed mid-generation),
+// comfortably longer than a generation's 2 minute timeout plus repairs
+const GENERATION_LOCK_TTL_MS = 10 * 60 * 1000;
+
+export const IDLE_GENERATION: GenerationState = {
+  status: 'idle',
+  kind: null,
+  dayIndex: null,
+  lockId: null,
+  startedById: null,
+  startedByName: null,
+  startedAt: null,
+  finishedAt: null,
+  error: null,
+};
+
+function toDateOrNull(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate(); // Firestore Timestamp, client or admin
+  return null;
+}
+
+/**
+ * Generation state as stored on the plan document; older plans have none and are idle
+ */
+export function toGenerationState(data: Record<string, any> | undefined): GenerationState {
+  if (!data) return IDLE_GENERATION;
+  return {
+    status: data.status || 'idle',
+    kind: data.kind || null,
+    dayIndex: data.dayIndex ?? null,
+    lockId: data.lockId || null,
+    startedById: data.startedById || null,
+    startedByName: data.startedByName || null,
+    startedAt: toDateOrNull(data.startedAt),
+    finishedAt: toDateOrNull(data.finishedAt),
+    error: data.error || null,
+  };
+}
+
+/**
+ * Whether a generation currently holds the lock (and hasn't been abandoned)
+ */
+export function isGenerationActive(state: GenerationState | undefined, now: Date = new Date()): boolean {
+  if (!state || state.status !== 'generating') return false;
+  // A pending server timestamp reads as null until the write lands; it was just claimed
+  if (!state.startedAt) return true;
+  return now.getTime() - state.startedAt.getTime() < GENERATION_LOCK_TTL_MS;
+}
+
+/**
+ * Human-readable description of an active generation, e.g. "Alex is regenerating Day 2…"
+ */
+export function describeGeneration(state: GenerationState, dayLabel?: string): string {
+  const who = state.startedByName || 'Someone';
+  if (state.kind === 'day') {
+    return `${who} is regenerating ${dayLabel || `Day ${(state.dayIndex ?? 0) + 1}`}…`;
+  }
+  return `${who} is generating the itinerary…`;
+}
@@ -0,0 +1,65 @@
+import { GenerationUsage } from '../types/usage';
+
+interface ModelPricing {
+  inputPerMillion: number; // USD per 1M prompt and tool tokens
+  outputPerMillion: number; // USD per 1M output and thinking tokens
+  groundedPrompt: number; // USD per request that used grounding
+}
+
+// Standard list prices; free tiers and long-context surcharges aren't taken into account
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10, groundedPrompt: 0.035 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, groundedPrompt: 0.035 },
+};
+
+export const EMPTY_USAGE: GenerationUsage = {
+  promptTokens: 0,
+  candidateTokens: 0,
+  toolTokens: 0,
+  thoughtsTokens: 0,
+  groundingCalls: 0,
+};
+
+/**
+ * Estimated cost of one request in USD. Unknown models (e.g. the fixture provider) cost nothing.
+ */
+export function estimateGenerationCost(model: string, usage: GenerationUsage): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+
+  const inputTokens = usage.promptTokens + usage.toolTokens;
+  const outputTokens = usage.candidateTokens + usage.thoughtsTokens;
+  return (
+    (inputTokens / 1_000_000) * pricing.inputPerMillion +
+    (outputTokens / 1_000_000) * pricing.outputPerMillion +
+    (usage.groundingCalls > 0 ? pricing.groundedPrompt : 0)
+  );
+}
+
+export function getTotalTokens(usage: GenerationUsage): number {
+  return usage.promptTokens + usage.candidateTokens + usage.toolTokens + usage.thoughtsTokens;
+}
+
+/**
+ * Quota period for a date, e.g. "2027-03". Months follow UTC so the server and every client agree.
+ */
+export function getUsagePeriod(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * First moment of the next period, when a monthly quota resets
+ */
+export function getNextPeriodStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+export function formatCostUsd(costUsd: number): string {
+  return costUsd > 0 && costUsd < 0.01 ? '< $0.01' : `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
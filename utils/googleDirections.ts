@@ -0,0 +1,119 @@
+import { DirectionsProvider, LatLng, TravelEstimate, getDistanceKm } from './travelTime';
+import { throwIfAborted } from './abort';
+import { getCoordinatesFromUrl } from './extractCoordinates';
+
+type GoogleTravelMode = 'TRANSIT' | 'WALKING';
+
+// The part of google.maps.DirectionsResult that's read here
+interface DirectionsResult {
+  routes?: { legs?: { duration?: { value: number } }[] }[];
+}
+
+// The Directions service isn't in the Window.google declaration that wins (utils/extractCoordinates), so it's added here
+interface DirectionsMaps {
+  DirectionsService?: new () => {
+    route: (
+      request: { origin: LatLng; destination: LatLng; travelMode: GoogleTravelMode },
+      callback: (result: DirectionsResult | null, status: string) => void
+    ) => void;
+  };
+}
+
+// Routes don't change while the page is open, so each pair of places is only looked up once
+const routeCache = new Map<string, Promise<TravelEstimate | null>>();
+// Same for geocoded links, which every transition of a day asks for twice
+const locationCache = new Map<string, Promise<LatLng | null>>();
+
+/**
+ * Travel time in minutes for one mode via the Maps JavaScript API, or null when there's no route
+ */
+function routeMinutes(from: LatLng, to: LatLng, mode: GoogleTravelMode): Promise<number | null> {
+  const maps = window.google?.maps as (Window['google']['maps'] & DirectionsMaps) | undefined;
+  if (!maps?.DirectionsService) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    new maps.DirectionsService().route(
+      { origin: from, destination: to, travelMode: mode },
+      (result: DirectionsResult | null, status: string) => {
+        const seconds = result?.routes?.[0]?.legs?.[0]?.duration?.value;
+        if (status === 'OK' && typeof seconds === 'number') {
+          resolve(Math.ceil(seconds / 60));
+        } else {
+          // ZERO_RESULTS for places transit doesn't reach; callers fall back to walking or the offline estimate
+          resolve(null);
+        }
+      }
+    );
+  });
+}
+
+async function lookUpRoute(from: LatLng, to: LatLng): Promise<TravelEstimate | null> {
+  const { loadGoogleMapsAPI } = await import('./loadGoogleMapsAPI');
+  await loadGoogleMapsAPI();
+
+  const distanceKm = getDistanceKm(from, to);
+  // Transit routes already include walking when it's quicker
+  const transitMinutes = await routeMinutes(from, to, 'TRANSIT');
+  if (transitMinutes !== null) {
+    return { minutes: transitMinutes, mode: 'transit', distanceKm, source: 'directions' };
+  }
+  const walkMinutes = await routeMinutes(from, to, 'WALKING');
+  return walkMinutes !== null ? { minutes: walkMinutes, mode: 'walk', distanceKm, source: 'directions' } : null;
+}
+
+/**
+ * Travel times from the Google Maps Directions service (uses VITE_GOOGLE_MAPS_API_KEY)
+ */
+export const googleDirectionsProvider: DirectionsProvider = {
+  id: 'google',
+
+  async estimate(from, to, signal) {
+    throwIfAborted(signal);
+    const key = `${from.lat},${from.lng}->${to.lat},${to.lng}`;
+    if (!routeCache.has(key)) {
+      // Failed lookups aren't cached, so they're retried next time
+      routeCache.set(key, lookUpRoute(from, to).catch((error) => {
+        routeCache.delete(key);
+        throw error;
+      }));
+    }
+    const estimate = await routeCache.get(key);
+    throwIfAborted(signal);
+    return estimate;
+  },
+
+  // cid and place_id links are geocoded by place ID or name (see utils/extractCoordinates)
+  async locate(link, placeName, signal) {
+    throwIfAborted(signal);
+    if (!locationCache.has(link)) {
+      locationCache.set(link, getCoordinatesFromUrl(link, placeName).catch((error) => {
+        locationCache.delete(link);
+        throw error;
+      }));
+    }
+    const location = await locationCache.get(link);
+    throwIfAborted(signal);
+    return location;
+  },
+};
+
+const DIRECTIONS_PROVIDERS: Record<string, DirectionsProvider> = {
+  [googleDirectionsProvider.id]: googleDirectionsProvider,
+};
+
+/**
+ * Returns the provider selected by VITE_DIRECTIONS_PROVIDER, or null (the default) to use
+ * only the offline distance heuristics
+ */
+export function getDirectionsProvider(): DirectionsProvider | null {
+  const id = import.meta.env.VITE_DIRECTIONS_PROVIDER;
+  if (!id) return null;
+  const provider = DIRECTIONS_PROVIDERS[id];
+  if (!provider) {
+    console.warn(`Unknown directions provider "${id}", using offline travel estimates. Expected one of: ${Object.keys(DIRECTIONS_PROVIDERS).join(', ')}`);
+    return null;
+  }
+  return provider;
+}
@@ -0,0 +1,29 @@
+import { Itinerary, GroundingChunk } from '../types';
+import { GenerationInputs, ItineraryQuality } from '../types/plan';
+import { checkItineraryConstraints } from './checkConstraints';
+
+/**
+ * Measures how well an itinerary follows the group's constraints and how many of its
+ * places link to a grounding source, so prompt templates can be compared on the same numbers
+ */
+export function measureItineraryQuality(
+  itinerary: Itinerary,
+  sources: GroundingChunk[],
+  inputs: GenerationInputs
+): ItineraryQuality {
+  const sourceUris = new Set(
+    sources.flatMap((source) => [source.maps?.uri, source.web?.uri]).filter((uri): uri is string => !!uri)
+  );
+  const links = itinerary.dailyItinerary.flatMap((day) =>
+    day.items.flatMap((item) => (item.hiddenGem ? [item.googleMapsLink, item.hiddenGem.googleMapsLink] : [item.googleMapsLink]))
+  );
+  const report = checkItineraryConstraints(itinerary, inputs.constraints || [], inputs.mustDoList, inputs.vetoList);
+
+  return {
+    placeCount: links.length,
+    linkedPlaceCount: links.filter(Boolean).length,
+    sourceMatchedPlaceCount: links.filter((link) => !!link && sourceUris.has(link)).length,
+    violationCount: report.violations.length,
+    hardViolationCount: report.hardViolationCount,
+  };
+}
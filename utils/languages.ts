@@ -0,0 +1,38 @@
+/**
+ * Languages an itinerary can be generated in
+ */
+export interface ItineraryLanguage {
+  code: string; // BCP 47 language tag, stored on the plan
+  name: string; // English name, used in prompts
+  nativeName: string; // Shown in the language picker
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const SUPPORTED_LANGUAGES: ItineraryLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'zh-Hans', name: 'Simplified Chinese', nativeName: '简体中文' },
+  { code: 'zh-Hant', name: 'Traditional Chinese', nativeName: '繁體中文' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+];
+
+/**
+ * Looks up a language by code, falling back to English for unknown or missing codes (e.g. older plans)
+ */
+export function getLanguage(code: string | null | undefined): ItineraryLanguage {
+  return (
+    SUPPORTED_LANGUAGES.find((language) => language.code === code) ||
+    SUPPORTED_LANGUAGES.find((language) => language.code === DEFAULT_LANGUAGE)!
+  );
+}
@@ -1,5 +1,6 @@
 
-import { Itinerary, GroundingChunk } from '../types';
+import { Itinerary, DailyPlan, ItineraryItem, HiddenGem, Hotel, GroundingChunk, PlaceProvenance } from '../types';
+import { LinkVerificationStats } from '../types/plan';
 
 /**
  * Normalizes a string for matching by removing special characters, converting to lowercase,
@@ -13,73 +14,132 @@ function normalizeString(str: string): string {
         .trim();
 }
 
+// Below this a matched place is badged so the group knows to double-check it
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+// Words that mark a generic description (e.g. "Dinner near the hotel") rather than a specific place
+const GENERIC_KEYWORDS = ['near', 'around', 'in', 'at', 'explore', 'dinner', 'lunch', 'breakfast', 'depart', 'transit', 'airport'];
+
+const NO_PROVENANCE: PlaceProvenance = { sourceIndex: null, confidence: 0, method: 'none' };
+
 /**
- * Checks if two strings are similar enough to be considered a match
+ * Matches whole words, so "in" flags "Lunch in Shibuya" but not "Shinjuku Gyoen"
  */
-function isSimilarMatch(str1: string, str2: string): boolean {
-    const normalized1 = normalizeString(str1);
-    const normalized2 = normalizeString(str2);
-    
-    // Exact match after normalization
-    if (normalized1 === normalized2) return true;
-    
-    // Check if one contains the other (for partial matches)
-    if (normalized1.includes(normalized2) || normalized2.includes(normalized1)) {
-        // Only consider it a match if the shorter string is at least 60% of the longer one
-        const minLength = Math.min(normalized1.length, normalized2.length);
-        const maxLength = Math.max(normalized1.length, normalized2.length);
-        return minLength / maxLength >= 0.6;
-    }
-    
-    return false;
+function isGenericDescription(placeName: string): boolean {
+    const words = normalizeString(placeName).split(' ');
+    return words.length <= 4 && words.some(word => GENERIC_KEYWORDS.includes(word));
 }
 
 /**
- * Finds the best matching Google Maps URI for a given place name
+ * How well a place name matches a source title, from 0 (no match) to 1 (same name after normalization)
  */
-function findMatchingUri(placeName: string, sources: GroundingChunk[]): string | null {
-    // Skip generic descriptions that don't represent specific places
-    const genericKeywords = ['near', 'around', 'in', 'at', 'explore', 'dinner', 'lunch', 'breakfast', 'depart', 'transit', 'airport'];
+function scoreMatch(placeName: string, sourceTitle: string): { score: number; method: 'exact' | 'fuzzy' } | null {
     const normalizedPlace = normalizeString(placeName);
-    const isGeneric = genericKeywords.some(keyword => normalizedPlace.includes(keyword)) && 
-                      normalizedPlace.split(' ').length <= 4;
-    
-    if (isGeneric) {
-        // Don't try to match generic descriptions
-        return null;
+    const normalizedTitle = normalizeString(sourceTitle);
+    if (!normalizedPlace || !normalizedTitle) return null;
+
+    if (normalizedPlace === normalizedTitle) {
+        return { score: 1, method: 'exact' };
     }
-    
-    // First, try exact matches
-    for (const source of sources) {
-        if (source.maps?.title && isSimilarMatch(placeName, source.maps.title)) {
-            return source.maps.uri;
+
+    // One contains most of the other, e.g. "Senso-ji" and "Senso-ji Temple"
+    if (normalizedPlace.includes(normalizedTitle) || normalizedTitle.includes(normalizedPlace)) {
+        const ratio = Math.min(normalizedPlace.length, normalizedTitle.length) / Math.max(normalizedPlace.length, normalizedTitle.length);
+        if (ratio >= 0.6) return { score: ratio, method: 'fuzzy' };
+    }
+
+    // Shared whole words, relative to both names so a long title sharing one word scores low
+    const placeWords = new Set(normalizedPlace.split(' ').filter(w => w.length > 2));
+    const titleWords = new Set(normalizedTitle.split(' ').filter(w => w.length > 2));
+    if (placeWords.size === 0 || titleWords.size === 0) return null;
+
+    const sharedWords = [...placeWords].filter(word => titleWords.has(word)).length;
+    const score = (2 * sharedWords) / (placeWords.size + titleWords.size);
+    return score >= 0.5 ? { score, method: 'fuzzy' } : null;
+}
+
+/**
+ * Finds the Google Maps grounding chunk that best matches a place name
+ */
+function findBestSource(placeName: string, sources: GroundingChunk[]): PlaceProvenance {
+    let best: PlaceProvenance = NO_PROVENANCE;
+
+    sources.forEach((source, index) => {
+        if (!source.maps?.title || !source.maps.uri) return;
+        const match = scoreMatch(placeName, source.maps.title);
+        if (match && match.score > best.confidence) {
+            best = { sourceIndex: index, confidence: match.score, method: match.method };
+        }
+    });
+
+    return best;
+}
+
+/**
+ * Resolves a place's link and where it came from.
+ * A link the model wrote itself is kept only if it is one of the grounding sources. Anything else
+ * was made up, so it is quarantined in unverifiedLink and the place is matched by name instead.
+ * Returns no provenance for generic descriptions that aren't a specific place.
+ */
+function matchPlace(
+    placeName: string,
+    link: string | null,
+    sources: GroundingChunk[]
+): { link: string | null; provenance?: PlaceProvenance; unverifiedLink?: string } {
+    let unverifiedLink: string | undefined;
+    if (link) {
+        const sourceIndex = sources.findIndex(source => source.maps?.uri === link || source.web?.uri === link);
+        if (sourceIndex >= 0) {
+            return { link, provenance: { sourceIndex, confidence: 1, method: 'model' } };
         }
+        console.warn(`Quarantined a link for "${placeName}" that is not in the grounding sources:`, link);
+        unverifiedLink = link;
     }
-    
-    // If no exact match, try partial matches with place name words
-    const placeWords = normalizedPlace.split(' ').filter(w => w.length > 2);
-    
-    if (placeWords.length === 0) {
-        return null;
+
+    const result: { link: string | null; provenance?: PlaceProvenance; unverifiedLink?: string } = { link: null };
+    if (unverifiedLink) {
+        result.unverifiedLink = unverifiedLink;
     }
-    
-    let bestMatch: { source: GroundingChunk; score: number } | null = null;
-    
-    for (const source of sources) {
-        if (source.maps?.title) {
-            const sourceTitle = normalizeString(source.maps.title);
-            // Count matching words
-            const matchingWords = placeWords.filter(word => sourceTitle.includes(word));
-            const score = matchingWords.length / placeWords.length;
-            
-            // Require at least 50% word match
-            if (score >= 0.5 && (!bestMatch || score > bestMatch.score)) {
-                bestMatch = { source, score };
-            }
-        }
+
+    if (isGenericDescription(placeName)) {
+        return result;
     }
-    
-    return bestMatch ? bestMatch.source.maps!.uri : null;
+
+    const provenance = findBestSource(placeName, sources);
+    result.provenance = provenance;
+    if (provenance.sourceIndex !== null) {
+        result.link = sources[provenance.sourceIndex].maps!.uri;
+    }
+    return result;
+}
+
+/**
+ * Puts a matched place's link, provenance and any quarantined link onto the place.
+ * Provenance and quarantined links from an earlier match are dropped first, and optional fields
+ * are only included if they have values.
+ */
+function applyMatch<T extends { googleMapsLink: string | null; provenance?: PlaceProvenance; unverifiedLink?: string }>(
+    place: T,
+    match: { link: string | null; provenance?: PlaceProvenance; unverifiedLink?: string }
+): T {
+    const { provenance, unverifiedLink, ...rest } = place;
+    const matched = { ...rest, googleMapsLink: match.link } as T;
+    if (match.provenance) {
+        matched.provenance = match.provenance;
+    }
+    if (match.unverifiedLink) {
+        matched.unverifiedLink = match.unverifiedLink;
+    }
+    return matched;
+}
+
+/**
+ * Whether the group should double-check a place: nothing grounds it, or the match is a weak guess.
+ * Places without provenance (generic activities, older plans) aren't flagged.
+ */
+export function needsDoubleCheck(provenance: PlaceProvenance | undefined): boolean {
+    if (!provenance) return false;
+    return provenance.sourceIndex === null || provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
 }
 
 /**
@@ -122,9 +182,47 @@ function findNeighborhoodUri(location: string, sources: GroundingChunk[]): strin
     return generateNeighborhoodMapsUrl(location);
 }
 
+function matchHiddenGem(gem: HiddenGem, sources: GroundingChunk[]): HiddenGem {
+    const matchedGem = applyMatch(gem, matchPlace(gem.name, gem.googleMapsLink, sources));
+
+    if (!gem.locationUri && !gem.googleMapsLink) {
+        matchedGem.locationUri = findNeighborhoodUri(gem.location, sources);
+    }
+
+    return matchedGem;
+}
+
 /**
- * Matches Google Maps URIs from sources to itinerary items
- * This is now used as a fallback - the model should include URIs directly in the JSON response
+ * Matches Google Maps URIs, neighborhood URIs and provenance for a single itinerary item
+ */
+function matchItem(item: ItineraryItem, sources: GroundingChunk[]): ItineraryItem {
+    const returnItem = applyMatch(
+        { ...item, locationUri: findNeighborhoodUri(item.location, sources) },
+        matchPlace(item.activity, item.googleMapsLink, sources)
+    );
+
+    if (item.hiddenGem) {
+        returnItem.hiddenGem = matchHiddenGem(item.hiddenGem, sources);
+    }
+
+    return returnItem;
+}
+
+/**
+ * Matches Google Maps URIs and neighborhood URIs for the items of a single day
+ */
+function matchDay(day: DailyPlan, sources: GroundingChunk[]): DailyPlan {
+    return {
+        ...day,
+        items: day.items.map(item => matchItem(item, sources))
+    };
+}
+
+/**
+ * Matches Google Maps URIs from sources to itinerary items and records each place's provenance
+ * Links are a fallback - the model should include URIs directly in the JSON response - and model links
+ * that aren't in the sources are quarantined (see matchPlace)
+ * provenance.sourceIndex is an index into the sources passed in
  */
 export function matchSourcesToItinerary(
     itinerary: Itinerary,
@@ -133,72 +231,123 @@ export function matchSourcesToItinerary(
     // Create a deep copy to avoid mutating the original
     const matchedItinerary: Itinerary = JSON.parse(JSON.stringify(itinerary));
     
-    // Match hotels - only if they don't already have a URI
-    matchedItinerary.recommendedHotels = matchedItinerary.recommendedHotels.map(hotel => {
-        // Only try to match if the model didn't provide a URI
-        if (!hotel.googleMapsLink) {
-            const uri = findMatchingUri(hotel.name, sources);
-            return {
-                ...hotel,
-                googleMapsLink: uri
-            };
-        }
-        return hotel;
-    });
+    // Match hotels - a URI the model provided is kept
+    matchedItinerary.recommendedHotels = matchedItinerary.recommendedHotels.map(hotel =>
+        applyMatch(hotel, matchPlace(hotel.name, hotel.googleMapsLink, sources))
+    );
+    
+    // Match daily itinerary items - a URI the model provided is kept
+    matchedItinerary.dailyItinerary = matchedItinerary.dailyItinerary.map(day => matchDay(day, sources));
     
-    // Match daily itinerary items - only if they don't already have a URI
-    matchedItinerary.dailyItinerary = matchedItinerary.dailyItinerary.map(day => ({
+    return matchedItinerary;
+}
+
+/**
+ * Matches Google Maps URIs from sources to a single day, e.g. after regenerating one day
+ */
+export function matchSourcesToDay(
+    day: DailyPlan,
+    sources: GroundingChunk[]
+): DailyPlan {
+    // Create a deep copy to avoid mutating the original
+    const dayCopy: DailyPlan = JSON.parse(JSON.stringify(day));
+    return matchDay(dayCopy, sources);
+}
+
+/**
+ * Matches Google Maps URIs from sources to a single item, e.g. a suggested alternative
+ */
+export function matchSourcesToItem(
+    item: ItineraryItem,
+    sources: GroundingChunk[]
+): ItineraryItem {
+    const itemCopy: ItineraryItem = JSON.parse(JSON.stringify(item));
+    return matchItem(itemCopy, sources);
+}
+
+function shiftProvenance<T extends { provenance?: PlaceProvenance }>(place: T, offset: number): T {
+    if (!place.provenance || place.provenance.sourceIndex === null) return place;
+    return { ...place, provenance: { ...place.provenance, sourceIndex: place.provenance.sourceIndex + offset } };
+}
+
+/**
+ * Shifts an item's provenance when its sources are appended after existing ones,
+ * so sourceIndex keeps pointing at the right chunk of the plan's sources
+ */
+export function offsetItemProvenance(item: ItineraryItem, offset: number): ItineraryItem {
+    const shifted = shiftProvenance(item, offset);
+    return item.hiddenGem ? { ...shifted, hiddenGem: shiftProvenance(item.hiddenGem, offset) } : shifted;
+}
+
+/**
+ * Same as offsetItemProvenance, for every item of a day
+ */
+export function offsetDayProvenance(day: DailyPlan, offset: number): DailyPlan {
+    return { ...day, items: day.items.map(item => offsetItemProvenance(item, offset)) };
+}
+
+/**
+ * Keeps only the sources some place's provenance still points at, merging chunks with the same URI,
+ * and remaps every sourceIndex in the itinerary to match - so replacing places doesn't grow the plan's
+ * sources forever. A sourceIndex with no source behind it becomes null.
+ */
+export function pruneUnreferencedSources(
+    itinerary: Itinerary,
+    sources: GroundingChunk[]
+): { itinerary: Itinerary; sources: GroundingChunk[] } {
+    const kept: GroundingChunk[] = [];
+    const keptIndexByUri = new Map<string, number>();
+    const newIndexes = new Map<number, number | null>();
+
+    const keep = (sourceIndex: number): number | null => {
+        if (!newIndexes.has(sourceIndex)) {
+            const source = sources[sourceIndex];
+            const uri = source?.maps?.uri || source?.web?.uri;
+            if (!source) {
+                newIndexes.set(sourceIndex, null);
+            } else if (uri && keptIndexByUri.has(uri)) {
+                newIndexes.set(sourceIndex, keptIndexByUri.get(uri)!);
+            } else {
+                if (uri) keptIndexByUri.set(uri, kept.length);
+                newIndexes.set(sourceIndex, kept.length);
+                kept.push(source);
+            }
+        }
+        return newIndexes.get(sourceIndex)!;
+    };
+    const remap = <T extends { provenance?: PlaceProvenance }>(place: T): T => {
+        if (!place.provenance || place.provenance.sourceIndex === null) return place;
+        return { ...place, provenance: { ...place.provenance, sourceIndex: keep(place.provenance.sourceIndex) } };
+    };
+
+    const recommendedHotels = itinerary.recommendedHotels.map(remap);
+    const dailyItinerary = itinerary.dailyItinerary.map(day => ({
         ...day,
         items: day.items.map(item => {
-            // Only try to match if the model didn't provide a URI
-            const activityUri = item.googleMapsLink || findMatchingUri(item.activity, sources);
-            
-            // Get neighborhood URI for the location field
-            const locationUri = findNeighborhoodUri(item.location, sources);
-            
-            let hiddenGem = item.hiddenGem;
-            if (hiddenGem) {
-                const hiddenGemObj: any = {
-                    ...hiddenGem,
-                    googleMapsLink: hiddenGem.googleMapsLink || null,
-                };
-                
-                // Only include locationUri if it exists
-                if (hiddenGem.locationUri) {
-                    hiddenGemObj.locationUri = hiddenGem.locationUri;
-                } else if (!hiddenGem.googleMapsLink) {
-                    // Try to find URI if not already set
-                    const hiddenGemUri = findMatchingUri(hiddenGem.name, sources);
-                    const hiddenGemLocationUri = findNeighborhoodUri(hiddenGem.location, sources);
-                    hiddenGemObj.googleMapsLink = hiddenGemUri || null;
-                    if (hiddenGemLocationUri) {
-                        hiddenGemObj.locationUri = hiddenGemLocationUri;
-                    }
-                }
-                
-                hiddenGem = hiddenGemObj;
-            }
-            
-            // Build the return object, only including optional fields if they have values
-            const returnItem: any = {
-                ...item,
-                googleMapsLink: activityUri || null,
-            };
-            
-            // Only include locationUri if it exists
-            if (locationUri) {
-                returnItem.locationUri = locationUri;
-            }
-            
-            // Only include hiddenGem if it exists
-            if (hiddenGem) {
-                returnItem.hiddenGem = hiddenGem;
-            }
-            
-            return returnItem;
-        })
+            const remapped = remap(item);
+            return item.hiddenGem ? { ...remapped, hiddenGem: remap(item.hiddenGem) } : remapped;
+        }),
     }));
-    
-    return matchedItinerary;
+
+    return { itinerary: { ...itinerary, recommendedHotels, dailyItinerary }, sources: kept };
 }
 
+/**
+ * Counts how the model's own links fared in matching, for the places of one generation
+ * (items with their hidden gems, plus hotels for a full itinerary)
+ */
+export function getLinkVerificationStats(items: ItineraryItem[], hotels: Hotel[] = []): LinkVerificationStats {
+    const places: { googleMapsLink: string | null; provenance?: PlaceProvenance; unverifiedLink?: string }[] = [
+        ...hotels,
+        ...items.flatMap(item => item.hiddenGem ? [item, item.hiddenGem] : [item]),
+    ];
+
+    const grounded = places.filter(place => place.provenance?.method === 'model' && place.provenance.sourceIndex !== null);
+    const fabricated = places.filter(place => place.unverifiedLink);
+    return {
+        modelLinkCount: grounded.length + fabricated.length,
+        groundedLinkCount: grounded.length,
+        fabricatedLinkCount: fabricated.length,
+        recoveredLinkCount: fabricated.filter(place => place.googleMapsLink).length,
+    };
+}
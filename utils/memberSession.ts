@@ -0,0 +1,24 @@
+/**
+ * Remembers which member this browser joined or signed in as, per plan.
+ * Members authenticate with a passcode rather than Firebase Auth, so this is how the
+ * dashboard knows whose votes to record.
+ */
+
+const storageKey = (planId: string) => `atlas:member:${planId}`;
+
+export function rememberPlanMember(planId: string, memberId: string): void {
+  try {
+    localStorage.setItem(storageKey(planId), memberId);
+  } catch (e) {
+    // Storage can be unavailable (e.g. private browsing); the member just can't vote
+    console.warn('Could not remember plan member:', e);
+  }
+}
+
+export function getPlanMemberId(planId: string): string | null {
+  try {
+    return localStorage.getItem(storageKey(planId));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+import { Itinerary, DailyPlan, ItineraryItem, Hotel } from '../types';
+
+/**
+ * Closes an incomplete JSON document at the last point where it is structurally valid.
+ * A "safe point" is right after a container opens or closes, or right before a comma,
+ * so strings and numbers that are still being streamed are never cut in half.
+ */
+function closePartialJson(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeCut = -1;
+  let safeClosers = '';
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      safeCut = i + 1;
+      safeClosers = [...stack].reverse().join('');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      safeCut = i + 1;
+      safeClosers = [...stack].reverse().join('');
+      if (stack.length === 0) {
+        // Top-level object is complete - ignore anything after it
+        break;
+      }
+    } else if (char === ',') {
+      safeCut = i;
+      safeClosers = [...stack].reverse().join('');
+    }
+  }
+
+  if (safeCut === -1) {
+    return null;
+  }
+
+  return text.slice(start, safeCut) + safeClosers;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function toPreviewItem(raw: any): ItineraryItem | null {
+  if (!raw || typeof raw !== 'object' || !asString(raw.activity)) {
+    return null;
+  }
+
+  const item: ItineraryItem = {
+    time: asString(raw.time),
+    activity: raw.activity,
+    location: asString(raw.location),
+    description: asString(raw.description),
+    googleMapsLink: asString(raw.googleMapsLink) || null,
+  };
+
+  if (raw.hiddenGem && asString(raw.hiddenGem.name)) {
+    item.hiddenGem = {
+      name: raw.hiddenGem.name,
+      location: asString(raw.hiddenGem.location),
+      description: asString(raw.hiddenGem.description),
+      googleMapsLink: asString(raw.hiddenGem.googleMapsLink) || null,
+    };
+  }
+
+  return item;
+}
+
+function toPreviewDay(raw: any): DailyPlan | null {
+  if (!raw || typeof raw !== 'object' || !asString(raw.day)) {
+    return null;
+  }
+
+  const items = Array.isArray(raw.items)
+    ? raw.items.map(toPreviewItem).filter((item: ItineraryItem | null): item is ItineraryItem => item !== null)
+    : [];
+
+  return {
+    day: raw.day,
+    title: asString(raw.title),
+    items,
+  };
+}
+
+function toPreviewHotel(raw: any): Hotel | null {
+  if (!raw || typeof raw !== 'object' || !asString(raw.name)) {
+    return null;
+  }
+
+  return {
+    name: raw.name,
+    description: asString(raw.description),
+    location: asString(raw.location),
+    googleMapsLink: asString(raw.googleMapsLink) || null,
+  };
+}
+
+/**
+ * Parses a partially streamed itinerary response into a renderable Itinerary.
+ * Missing fields are filled with empty defaults and incomplete entries are dropped,
+ * so the result can be passed straight to ItineraryDisplay while generation continues.
+ * Returns null until the response contains anything worth showing.
+ */
+export function parsePartialItinerary(text: string): Itinerary | null {
+  const cleaned = text.replace(/```json|```/g, '');
+  const closed = closePartialJson(cleaned);
+  if (!closed) {
+    return null;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(closed);
+  } catch {
+    return null;
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const preview: Itinerary = {
+    tripTitle: asString(raw.tripTitle),
+    vibeCheck: asString(raw.vibeCheck),
+    packingList: Array.isArray(raw.packingList)
+      ? raw.packingList.filter((entry: unknown) => typeof entry === 'string')
+      : [],
+    recommendedHotels: Array.isArray(raw.recommendedHotels)
+      ? raw.recommendedHotels.map(toPreviewHotel).filter((hotel: Hotel | null): hotel is Hotel => hotel !== null)
+      : [],
+    dailyItinerary: Array.isArray(raw.dailyItinerary)
+      ? raw.dailyItinerary.map(toPreviewDay).filter((day: DailyPlan | null): day is DailyPlan => day !== null)
+      : [],
+  };
+
+  const hasContent =
+    preview.tripTitle ||
+    preview.vibeCheck ||
+    preview.recommendedHotels.length > 0 ||
+    preview.dailyItinerary.length > 0;
+
+  return hasContent ? preview : null;
+}
@@ -0,0 +1,151 @@
+import { DailyPlan, Itinerary, ItineraryItem, PinnedItem } from '../types';
+import { getPlaceKey } from './placeKey';
+import { parseItemTime } from './checkConstraints';
+
+/**
+ * What happened to a pinned item when a regeneration came back:
+ * the model left it out and it was put back ("restored"), or it put it on another day or at another time ("moved")
+ */
+export interface PinnedItemChange {
+  kind: 'restored' | 'moved';
+  activity: string;
+  message: string;
+}
+
+/**
+ * Every pinned item in the itinerary, in trip order
+ */
+export function getPinnedItems(itinerary: Itinerary | null): PinnedItem[] {
+  if (!itinerary) return [];
+  return itinerary.dailyItinerary.flatMap((day, dayIndex) =>
+    day.items.filter((item) => item.pinned).map((item) => ({ dayIndex, day: day.day, item }))
+  );
+}
+
+// A restored item keeps its link, but its provenance and any quarantined link describe the
+// sources of the generation it came from, so they are dropped rather than counted again
+function toRestoredItem(item: ItineraryItem): ItineraryItem {
+  const { provenance, unverifiedLink, pinned, ...restored } = item;
+  if (!restored.hiddenGem) return restored;
+  const { provenance: gemProvenance, unverifiedLink: gemUnverifiedLink, ...hiddenGem } = restored.hiddenGem;
+  return { ...restored, hiddenGem };
+}
+
+// Before the first item that starts later; items without a clock time go at the end
+function getInsertIndex(items: ItineraryItem[], time: string): number {
+  const minutes = parseItemTime(time);
+  if (minutes === null) return items.length;
+  const index = items.findIndex((item) => {
+    const itemMinutes = parseItemTime(item.time);
+    return itemMinutes !== null && itemMinutes > minutes;
+  });
+  return index === -1 ? items.length : index;
+}
+
+// A pinned item's stable key: its trip day, time and place, so two pinned items with the same name stay apart
+function getPinKey(dayIndex: number, item: ItineraryItem): string {
+  return `${dayIndex}|${item.time.trim().toLowerCase()}|${getPlaceKey('item', item.activity)}`;
+}
+
+// Where each pinned item ended up, as [local day index, item index], or null if the model left it out.
+// Items still on their day at their time are matched first; the rest then take the first unmatched item
+// with the same name, on their own day if possible. Each item is matched to at most one pinned item.
+function findPinnedMatches(
+  days: DailyPlan[],
+  pinnedItems: PinnedItem[],
+  dayOffset: number
+): ([number, number] | null)[] {
+  const claimed = new Set<string>();
+  const claim = (dayIndex: number, itemIndex: number): [number, number] => {
+    claimed.add(`${dayIndex}:${itemIndex}`);
+    return [dayIndex, itemIndex];
+  };
+  const findUnclaimed = (dayIndex: number, isMatch: (item: ItineraryItem) => boolean): number =>
+    days[dayIndex].items.findIndex((item, itemIndex) => !claimed.has(`${dayIndex}:${itemIndex}`) && isMatch(item));
+
+  const matches: ([number, number] | null)[] = pinnedItems.map((pinnedItem) => {
+    const dayIndex = pinnedItem.dayIndex - dayOffset;
+    if (!days[dayIndex]) return null;
+    const pinKey = getPinKey(pinnedItem.dayIndex, pinnedItem.item);
+    const itemIndex = findUnclaimed(dayIndex, (item) => getPinKey(pinnedItem.dayIndex, item) === pinKey);
+    return itemIndex === -1 ? null : claim(dayIndex, itemIndex);
+  });
+
+  return matches.map((match, index) => {
+    if (match) return match;
+    const placeKey = getPlaceKey('item', pinnedItems[index].item.activity);
+    const ownDayIndex = pinnedItems[index].dayIndex - dayOffset;
+    const dayOrder = days.map((_, dayIndex) => dayIndex).sort((a, b) => Number(b === ownDayIndex) - Number(a === ownDayIndex));
+    for (const dayIndex of dayOrder) {
+      const itemIndex = findUnclaimed(dayIndex, (item) => getPlaceKey('item', item.activity) === placeKey);
+      if (itemIndex !== -1) return claim(dayIndex, itemIndex);
+    }
+    return null;
+  });
+}
+
+/**
+ * Makes sure a regeneration kept every pinned item. days[i] is trip day dayOffset + i, so a
+ * single regenerated day can be checked against the items pinned to it.
+ * - Only items matching a pinned one (by day, time and name) keep the pinned flag; the model can't pin anything itself.
+ * - A pinned item the model left out is put back on its day, in time order, with the link it already had.
+ *   Call this after matching sources: the new sources don't contain its link, so re-matching would quarantine it.
+ * - A pinned item the model moved to another day or time is left where it is, and reported so the creator can move it back.
+ */
+export function applyPinnedItems(
+  days: DailyPlan[],
+  pinnedItems: PinnedItem[],
+  dayOffset: number = 0
+): { days: DailyPlan[]; changes: PinnedItemChange[] } {
+  const result = days.map((day) => ({
+    ...day,
+    items: day.items.map(({ pinned, ...item }) => item as ItineraryItem),
+  }));
+  const changes: PinnedItemChange[] = [];
+  if (result.length === 0) return { days: result, changes };
+
+  const matches = findPinnedMatches(result, pinnedItems, dayOffset);
+  const restores: { targetIndex: number; item: ItineraryItem }[] = [];
+
+  pinnedItems.forEach((pinnedItem, index) => {
+    const { item } = pinnedItem;
+    const match = matches[index];
+
+    if (!match) {
+      // A shorter trip can lose the pinned day; the item then goes on the last day
+      const targetIndex = Math.min(Math.max(pinnedItem.dayIndex - dayOffset, 0), result.length - 1);
+      restores.push({ targetIndex, item });
+      changes.push({
+        kind: 'restored',
+        activity: item.activity,
+        message: `${item.activity} was left out, so it was put back on ${result[targetIndex].day} at ${item.time}.`,
+      });
+      return;
+    }
+
+    const [localDayIndex, itemIndex] = match;
+    const day = result[localDayIndex];
+    const kept = day.items[itemIndex];
+    day.items[itemIndex] = { ...kept, pinned: true };
+
+    const movedDay = localDayIndex + dayOffset !== pinnedItem.dayIndex;
+    const movedTime = kept.time.trim() !== item.time.trim();
+    if (movedDay || movedTime) {
+      changes.push({
+        kind: 'moved',
+        activity: item.activity,
+        message: movedDay
+          ? `${item.activity} was moved from ${pinnedItem.day} at ${item.time} to ${day.day} at ${kept.time}.`
+          : `${item.activity} was moved from ${item.time} to ${kept.time} on ${day.day}.`,
+      });
+    }
+  });
+
+  // Put back after pinning, so the matched item indexes still hold
+  for (const { targetIndex, item } of restores) {
+    const target = result[targetIndex];
+    target.items.splice(getInsertIndex(target.items, item.time), 0, { ...toRestoredItem(item), pinned: true });
+  }
+
+  return { days: result, changes };
+}
@@ -0,0 +1,15 @@
+export type PlaceKind = 'item' | 'hotel' | 'gem';
+
+/**
+ * Stable key for a place in a plan, used for votes and comment threads: its kind and name,
+ * so they survive reordering and moving items between days. The same place listed twice shares a key.
+ */
+export function getPlaceKey(kind: PlaceKind, name: string): string {
+  const slug = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${kind}:${slug}`;
+}
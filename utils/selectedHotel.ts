@@ -0,0 +1,17 @@
+import { Hotel } from '../types';
+import { getPlaceKey } from './placeKey';
+
+/**
+ * Whether a recommended hotel is the plan's selected one, matched by name like votes and comments
+ */
+export function isSelectedHotel(hotel: Hotel, selectedHotel: Hotel | null): boolean {
+  return !!selectedHotel && getPlaceKey('hotel', hotel.name) === getPlaceKey('hotel', selectedHotel.name);
+}
+
+/**
+ * The recommended hotels, plus the selected one first if a regeneration left it off the list
+ */
+export function getHotelsWithSelected(hotels: Hotel[], selectedHotel: Hotel | null): Hotel[] {
+  if (!selectedHotel || hotels.some((hotel) => isSelectedHotel(hotel, selectedHotel))) return hotels;
+  return [selectedHotel, ...hotels];
+}
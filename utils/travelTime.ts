@@ -0,0 +1,162 @@
+import { DailyPlan, ItineraryItem } from '../types';
+import { extractCoordinatesFromUrl } from './extractCoordinates';
+import { parseItemTime } from './checkConstraints';
+import { isAbortError } from './abort';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type TravelMode = 'walk' | 'transit';
+
+export interface TravelEstimate {
+  minutes: number;
+  mode: TravelMode;
+  distanceKm: number; // Straight-line distance between the two places
+  source: 'heuristic' | 'directions';
+}
+
+/**
+ * Looks up real travel times (e.g. from a directions API)
+ * Returns null when it has no route, so the offline estimate is kept
+ */
+export interface DirectionsProvider {
+  id: string;
+  estimate(from: LatLng, to: LatLng, signal?: AbortSignal): Promise<TravelEstimate | null>;
+  /**
+   * Coordinates for a map link without them in the URL (grounded links are usually cid or place_id links),
+   * or null when the place can't be found
+   */
+  locate(link: string, placeName: string, signal?: AbortSignal): Promise<LatLng | null>;
+}
+
+export type TransitionStatus = 'ok' | 'tight' | 'infeasible' | 'unknown';
+
+/**
+ * Whether there's time to get from one item to the next before it starts
+ */
+export interface TransitionCheck {
+  fromIndex: number;
+  toIndex: number;
+  gapMinutes: number | null; // Between the two scheduled start times
+  travel: TravelEstimate | null;
+  status: TransitionStatus;
+}
+
+// Streets aren't straight lines, so straight-line distances are stretched by this much
+const ROUTE_FACTOR = 1.3;
+const WALK_SPEED_KMH = 4.5;
+const TRANSIT_SPEED_KMH = 20;
+const TRANSIT_OVERHEAD_MINUTES = 10; // Walking to the station and waiting
+const MAX_WALK_MINUTES = 20; // Longer walks are assumed to be made by transit when it's quicker
+
+// Shortest visit worth scheduling; anything less after travel makes the transition tight
+export const MIN_VISIT_MINUTES = 30;
+
+/**
+ * Coordinates from a place's map link; links that need geocoding have none offline
+ */
+export function getItemCoordinates(item: ItineraryItem): LatLng | null {
+  if (!item.googleMapsLink) return null;
+  return extractCoordinatesFromUrl(item.googleMapsLink).coordinates;
+}
+
+/**
+ * Great-circle distance in km
+ */
+export function getDistanceKm(from: LatLng, to: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Rounded up to 5 minutes, since the heuristics aren't more precise than that
+const roundUpMinutes = (minutes: number) => Math.max(5, Math.ceil(minutes / 5) * 5);
+
+/**
+ * Offline travel time from distance alone: walk short hops, take transit otherwise
+ */
+export function estimateTravelOffline(from: LatLng, to: LatLng): TravelEstimate {
+  const distanceKm = getDistanceKm(from, to);
+  const routeKm = distanceKm * ROUTE_FACTOR;
+  const walkMinutes = (routeKm / WALK_SPEED_KMH) * 60;
+  const transitMinutes = TRANSIT_OVERHEAD_MINUTES + (routeKm / TRANSIT_SPEED_KMH) * 60;
+
+  if (walkMinutes <= MAX_WALK_MINUTES || walkMinutes <= transitMinutes) {
+    return { minutes: roundUpMinutes(walkMinutes), mode: 'walk', distanceKm, source: 'heuristic' };
+  }
+  return { minutes: roundUpMinutes(transitMinutes), mode: 'transit', distanceKm, source: 'heuristic' };
+}
+
+function getTransitionStatus(gapMinutes: number | null, travel: TravelEstimate | null): TransitionStatus {
+  if (gapMinutes === null || !travel) return 'unknown';
+  if (travel.minutes > gapMinutes) return 'infeasible';
+  if (travel.minutes + MIN_VISIT_MINUTES > gapMinutes) return 'tight';
+  return 'ok';
+}
+
+function getGapMinutes(from: ItineraryItem, to: ItineraryItem): number | null {
+  // Items still being streamed may not have a time yet
+  if (!from.time || !to.time) return null;
+  const start = parseItemTime(from.time);
+  const nextStart = parseItemTime(to.time);
+  if (start === null || nextStart === null) return null;
+  // A later item with an earlier clock time runs past midnight
+  return nextStart >= start ? nextStart - start : nextStart + 24 * 60 - start;
+}
+
+/**
+ * Checks every pair of consecutive items in a day against the offline estimates.
+ * Pairs without clock times or coordinates come back as "unknown".
+ */
+export function checkDayTravel(day: DailyPlan): TransitionCheck[] {
+  return day.items.slice(1).map((to, index) => {
+    const from = day.items[index];
+    const fromCoordinates = getItemCoordinates(from);
+    const toCoordinates = getItemCoordinates(to);
+    const travel = fromCoordinates && toCoordinates ? estimateTravelOffline(fromCoordinates, toCoordinates) : null;
+    const gapMinutes = getGapMinutes(from, to);
+
+    return { fromIndex: index, toIndex: index + 1, gapMinutes, travel, status: getTransitionStatus(gapMinutes, travel) };
+  });
+}
+
+// Coordinates from the link itself, or located by the provider when the link has none
+async function resolveItemCoordinates(item: ItineraryItem, provider: DirectionsProvider, signal?: AbortSignal): Promise<LatLng | null> {
+  const coordinates = getItemCoordinates(item);
+  if (coordinates || !item.googleMapsLink) return coordinates;
+  return provider.locate(item.googleMapsLink, item.activity, signal);
+}
+
+/**
+ * Replaces the offline estimates with the directions provider's where it has a route.
+ * Items whose links have no coordinates are located through the provider first, and fall back to
+ * the offline estimate when there's no route between them.
+ * A failed lookup keeps the offline estimate rather than failing the whole day.
+ */
+export async function refineDayTravel(
+  day: DailyPlan,
+  checks: TransitionCheck[],
+  provider: DirectionsProvider,
+  signal?: AbortSignal
+): Promise<TransitionCheck[]> {
+  return Promise.all(checks.map(async (check) => {
+    try {
+      const [from, to] = await Promise.all([
+        resolveItemCoordinates(day.items[check.fromIndex], provider, signal),
+        resolveItemCoordinates(day.items[check.toIndex], provider, signal),
+      ]);
+      if (!from || !to) return check;
+
+      const travel = (await provider.estimate(from, to, signal)) || check.travel || estimateTravelOffline(from, to);
+      return { ...check, travel, status: getTransitionStatus(check.gapMinutes, travel) };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Directions lookup failed (${provider.id}), keeping the offline estimate:`, error);
+      return check;
+    }
+  }));
+}
@@ -0,0 +1,125 @@
+import { Itinerary, DailyPlan } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest trip a plan can cover. A full itinerary is generated in one response, so longer trips
+ * would make the prompt and the model's output grow without bound.
+ */
+export const MAX_TRIP_DAYS = 30;
+
+/**
+ * One calendar day of a trip
+ */
+export interface TripDay {
+  date: string; // ISO date, e.g. "2027-03-20"
+  weekday: string; // e.g. "Saturday"
+}
+
+/**
+ * Parses an ISO date ("YYYY-MM-DD") as UTC midnight, so weekdays don't shift with the viewer's time zone
+ */
+function parseIsoDate(isoDate: string | null | undefined): Date | null {
+  const match = isoDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  // Rejects dates like 2027-02-31 that Date.UTC silently rolls over
+  return date.toISOString().slice(0, 10) === isoDate ? date : null;
+}
+
+function toTripDay(date: Date): TripDay {
+  return {
+    date: date.toISOString().slice(0, 10),
+    weekday: date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+  };
+}
+
+/**
+ * Number of days from start to end, both inclusive. Null when either date is invalid or end is before start.
+ */
+export function getTripDayCount(startDate: string | null | undefined, endDate: string | null | undefined): number | null {
+  const start = parseIsoDate(startDate);
+  const end = parseIsoDate(endDate);
+  if (!start || !end || end < start) return null;
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Whether the trip is longer than MAX_TRIP_DAYS. Invalid dates aren't too long; getTripDayCount reports those.
+ */
+export function isTripTooLong(startDate: string | null | undefined, endDate: string | null | undefined): boolean {
+  const dayCount = getTripDayCount(startDate, endDate);
+  return dayCount !== null && dayCount > MAX_TRIP_DAYS;
+}
+
+/**
+ * The last end date a trip starting on startDate can have, or null when the start date is invalid
+ */
+export function getLatestEndDate(startDate: string | null | undefined): string | null {
+  const start = parseIsoDate(startDate);
+  return start ? toTripDay(new Date(start.getTime() + (MAX_TRIP_DAYS - 1) * MS_PER_DAY)).date : null;
+}
+
+/**
+ * Every calendar day of the trip in order, or an empty list when the dates are missing or invalid
+ */
+export function getTripDays(startDate: string | null | undefined, endDate: string | null | undefined): TripDay[] {
+  const start = parseIsoDate(startDate);
+  const dayCount = getTripDayCount(startDate, endDate);
+  if (!start || dayCount === null) return [];
+
+  return Array.from({ length: dayCount }, (_, index) => toTripDay(new Date(start.getTime() + index * MS_PER_DAY)));
+}
+
+/**
+ * Human-readable trip dates, e.g. "Sat, Mar 20 – Wed, Mar 24, 2027 (5 days)"
+ * Stored as Plan.tripDates so older screens keep showing something sensible.
+ */
+export function formatTripDates(startDate: string, endDate: string): string {
+  const start = parseIsoDate(startDate);
+  const end = parseIsoDate(endDate);
+  const dayCount = getTripDayCount(startDate, endDate);
+  if (!start || !end || dayCount === null) return '';
+
+  const format = (date: Date, withYear: boolean) =>
+    date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: withYear ? 'numeric' : undefined,
+      timeZone: 'UTC',
+    });
+  const range = dayCount === 1
+    ? format(start, true)
+    : `${format(start, start.getUTCFullYear() !== end.getUTCFullYear())} – ${format(end, true)}`;
+
+  return `${range} (${dayCount} ${dayCount === 1 ? 'day' : 'days'})`;
+}
+
+/**
+ * Short label for a single day, e.g. "Sat, Mar 20"
+ */
+export function formatDayDate(day: Pick<DailyPlan, 'date'>): string | null {
+  const date = parseIsoDate(day.date);
+  return date
+    ? date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+    : null;
+}
+
+/**
+ * Stamps each day with its calendar date and weekday, counting from the trip's start date.
+ * Dates are always derived here rather than trusted from the model.
+ */
+export function assignCalendarDates(itinerary: Itinerary, startDate: string | null | undefined): Itinerary {
+  const start = parseIsoDate(startDate);
+  if (!start) return itinerary;
+
+  return {
+    ...itinerary,
+    dailyItinerary: itinerary.dailyItinerary.map((day, index) => ({
+      ...day,
+      ...toTripDay(new Date(start.getTime() + index * MS_PER_DAY)),
+    })),
+  };
+}
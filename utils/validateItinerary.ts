@@ -0,0 +1,499 @@
+import { Itinerary, DailyPlan, ItineraryItem } from '../types';
+
+export type ItineraryValidationErrorCode = 'invalid_json' | 'missing' | 'invalid_type' | 'empty' | 'wrong_day_count';
+
+export interface ItineraryValidationError {
+  path: string; // e.g. "itinerary.dailyItinerary[2].items[0].activity"
+  code: ItineraryValidationErrorCode;
+  message: string;
+}
+
+export interface DailyPlanValidationResult {
+  valid: boolean;
+  dailyPlan: DailyPlan | null; // Repaired day, only set when valid
+  errors: ItineraryValidationError[];
+  repairs: string[];
+}
+
+export interface AlternativesValidationResult {
+  valid: boolean;
+  alternatives: ItineraryItem[]; // Only the alternatives that passed validation
+  errors: ItineraryValidationError[];
+  repairs: string[];
+}
+
+export interface ItineraryValidationResult {
+  valid: boolean;
+  itinerary: Itinerary | null; // Repaired itinerary, only set when valid
+  errors: ItineraryValidationError[];
+  repairs: string[]; // Human-readable list of repairs that were applied
+}
+
+/**
+ * Removes commas that directly precede a closing bracket, ignoring anything inside strings
+ */
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      result += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      const rest = json.slice(i + 1).trimStart();
+      if (rest.startsWith('}') || rest.startsWith(']')) {
+        continue;
+      }
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Repairs common textual defects in model output and parses it.
+ * Handles markdown fences, prose before/after the JSON object and trailing commas.
+ */
+export function parseItineraryJson(text: string): { value: unknown; repairs: string[]; error?: string } {
+  const repairs: string[] = [];
+  let json = text;
+
+  if (/```/.test(json)) {
+    json = json.replace(/```json|```/g, '');
+    repairs.push('Removed markdown code fences');
+  }
+  json = json.trim();
+
+  const start = json.indexOf('{');
+  const end = json.lastIndexOf('}');
+  if (start === -1) {
+    return { value: null, repairs, error: 'Response does not contain a JSON object' };
+  }
+  if (end === -1 || end < start) {
+    return { value: null, repairs, error: 'Response JSON is incomplete (it may have been cut off)' };
+  }
+  if (start > 0 || end < json.length - 1) {
+    json = json.slice(start, end + 1);
+    repairs.push('Removed text surrounding the JSON object');
+  }
+
+  try {
+    return { value: JSON.parse(json), repairs };
+  } catch {
+    // Fall through to trailing comma repair
+  }
+
+  const withoutTrailingCommas = removeTrailingCommas(json);
+  try {
+    const value = JSON.parse(withoutTrailingCommas);
+    repairs.push('Removed trailing commas');
+    return { value, repairs };
+  } catch (e: any) {
+    return { value: null, repairs, error: e?.message || 'Invalid JSON' };
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+interface ValidationContext {
+  errors: ItineraryValidationError[];
+  repairs: string[];
+}
+
+function requireString(ctx: ValidationContext, obj: Record<string, any>, key: string, path: string, allowEmpty = false): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    ctx.errors.push({ path: `${path}.${key}`, code: 'missing', message: `${key} is required` });
+  } else if (typeof value !== 'string') {
+    ctx.errors.push({ path: `${path}.${key}`, code: 'invalid_type', message: `${key} must be a string` });
+  } else if (!allowEmpty && !value.trim()) {
+    ctx.errors.push({ path: `${path}.${key}`, code: 'empty', message: `${key} must not be empty` });
+  }
+}
+
+function requireArray(ctx: ValidationContext, obj: Record<string, any>, key: string, path: string): any[] | null {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    ctx.errors.push({ path: `${path}.${key}`, code: 'missing', message: `${key} is required` });
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    ctx.errors.push({ path: `${path}.${key}`, code: 'invalid_type', message: `${key} must be an array` });
+    return null;
+  }
+  return value;
+}
+
+/**
+ * googleMapsLink is nullable - the model often omits it instead of writing null
+ */
+function normalizeLink(ctx: ValidationContext, obj: Record<string, any>, path: string): void {
+  const value = obj.googleMapsLink;
+  if (value === undefined || value === '') {
+    obj.googleMapsLink = null;
+    ctx.repairs.push(`Set missing ${path}.googleMapsLink to null`);
+  } else if (value !== null && typeof value !== 'string') {
+    ctx.errors.push({ path: `${path}.googleMapsLink`, code: 'invalid_type', message: 'googleMapsLink must be a string or null' });
+  }
+}
+
+function normalizeLocationUri(ctx: ValidationContext, obj: Record<string, any>, path: string): void {
+  if (obj.locationUri !== undefined && typeof obj.locationUri !== 'string') {
+    delete obj.locationUri;
+    ctx.repairs.push(`Removed invalid ${path}.locationUri`);
+  }
+}
+
+const PROVENANCE_METHODS = ['model', 'exact', 'fuzzy', 'none'];
+
+/**
+ * provenance is recomputed whenever sources are matched, so a malformed one is just dropped
+ */
+function normalizeProvenance(ctx: ValidationContext, obj: Record<string, any>, path: string): void {
+  const provenance = obj.provenance;
+  if (provenance === undefined) return;
+
+  const isValid =
+    isObject(provenance) &&
+    PROVENANCE_METHODS.includes(provenance.method) &&
+    typeof provenance.confidence === 'number' &&
+    (provenance.sourceIndex === null || (Number.isInteger(provenance.sourceIndex) && provenance.sourceIndex >= 0));
+
+  if (!isValid) {
+    delete obj.provenance;
+    ctx.repairs.push(`Removed invalid ${path}.provenance`);
+  }
+}
+
+/**
+ * unverifiedLink holds a quarantined model link, so anything but a string is dropped
+ */
+function normalizeUnverifiedLink(ctx: ValidationContext, obj: Record<string, any>, path: string): void {
+  if (obj.unverifiedLink !== undefined && typeof obj.unverifiedLink !== 'string') {
+    delete obj.unverifiedLink;
+    ctx.repairs.push(`Removed invalid ${path}.unverifiedLink`);
+  }
+}
+
+/**
+ * estimatedCost is optional and only used for budget comparisons, so a malformed one is dropped.
+ * The model sometimes writes numbers as strings or swaps min and max; both are repaired.
+ */
+function normalizeEstimatedCost(ctx: ValidationContext, obj: Record<string, any>, path: string): void {
+  const cost = obj.estimatedCost;
+  if (cost === undefined || cost === null) return;
+
+  const min = typeof cost?.min === 'string' ? Number(cost.min.replace(/,/g, '')) : cost?.min;
+  const max = typeof cost?.max === 'string' ? Number(cost.max.replace(/,/g, '')) : cost?.max;
+  const isValid =
+    isObject(cost) &&
+    Number.isFinite(min) && min >= 0 &&
+    Number.isFinite(max) && max >= 0 &&
+    typeof cost.currency === 'string' && /^[A-Za-z]{3}$/.test(cost.currency.trim());
+
+  if (!isValid) {
+    obj.estimatedCost = null;
+    ctx.repairs.push(`Removed invalid ${path}.estimatedCost`);
+    return;
+  }
+
+  const normalized = { min: Math.min(min, max), max: Math.max(min, max), currency: cost.currency.trim().toUpperCase() };
+  if (normalized.min !== cost.min || normalized.max !== cost.max || normalized.currency !== cost.currency) {
+    ctx.repairs.push(`Normalized ${path}.estimatedCost`);
+  }
+  obj.estimatedCost = normalized;
+}
+
+/**
+ * costCurrency and exchangeRates are optional; invalid values and rates are dropped
+ */
+function normalizeCurrencyFields(ctx: ValidationContext, itinerary: Record<string, any>, path: string): void {
+  if (itinerary.costCurrency !== undefined) {
+    if (typeof itinerary.costCurrency === 'string' && /^[A-Za-z]{3}$/.test(itinerary.costCurrency.trim())) {
+      itinerary.costCurrency = itinerary.costCurrency.trim().toUpperCase();
+    } else {
+      delete itinerary.costCurrency;
+      ctx.repairs.push(`Removed invalid ${path}.costCurrency`);
+    }
+  }
+
+  if (itinerary.exchangeRates === undefined) return;
+  if (!isObject(itinerary.exchangeRates)) {
+    delete itinerary.exchangeRates;
+    ctx.repairs.push(`Removed invalid ${path}.exchangeRates`);
+    return;
+  }
+  const rates: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(itinerary.exchangeRates)) {
+    if (/^[A-Za-z]{3}$/.test(currency) && typeof rate === 'number' && Number.isFinite(rate) && rate > 0) {
+      rates[currency.toUpperCase()] = rate;
+    } else {
+      ctx.repairs.push(`Removed invalid ${path}.exchangeRates.${currency}`);
+    }
+  }
+  itinerary.exchangeRates = rates;
+}
+
+/**
+ * pinned is a plain flag; anything but a boolean is dropped
+ */
+function normalizePinned(ctx: ValidationContext, item: Record<string, any>, path: string): void {
+  if (item.pinned !== undefined && typeof item.pinned !== 'boolean') {
+    delete item.pinned;
+    ctx.repairs.push(`Removed invalid ${path}.pinned`);
+  }
+}
+
+function validateHotel(ctx: ValidationContext, hotel: unknown, path: string): void {
+  if (!isObject(hotel)) {
+    ctx.errors.push({ path, code: 'invalid_type', message: 'Hotel must be an object' });
+    return;
+  }
+  requireString(ctx, hotel, 'name', path);
+  requireString(ctx, hotel, 'description', path, true);
+  requireString(ctx, hotel, 'location', path, true);
+  normalizeLink(ctx, hotel, path);
+  normalizeProvenance(ctx, hotel, path);
+  normalizeUnverifiedLink(ctx, hotel, path);
+  normalizeEstimatedCost(ctx, hotel, path);
+}
+
+/**
+ * hiddenGem is optional, so a broken one is dropped rather than failing the whole itinerary
+ */
+function validateHiddenGem(ctx: ValidationContext, item: Record<string, any>, path: string): void {
+  const gem = item.hiddenGem;
+  if (gem === undefined) return;
+
+  const isUsable =
+    isObject(gem) &&
+    typeof gem.name === 'string' && gem.name.trim() &&
+    typeof gem.location === 'string' &&
+    typeof gem.description === 'string';
+
+  if (!isUsable) {
+    delete item.hiddenGem;
+    ctx.repairs.push(`Removed incomplete ${path}.hiddenGem`);
+    return;
+  }
+
+  normalizeLink(ctx, gem, `${path}.hiddenGem`);
+  normalizeLocationUri(ctx, gem, `${path}.hiddenGem`);
+  normalizeProvenance(ctx, gem, `${path}.hiddenGem`);
+  normalizeUnverifiedLink(ctx, gem, `${path}.hiddenGem`);
+}
+
+function validateItem(ctx: ValidationContext, item: unknown, path: string): void {
+  if (!isObject(item)) {
+    ctx.errors.push({ path, code: 'invalid_type', message: 'Itinerary item must be an object' });
+    return;
+  }
+  requireString(ctx, item, 'time', path);
+  requireString(ctx, item, 'activity', path);
+  requireString(ctx, item, 'location', path, true);
+  requireString(ctx, item, 'description', path, true);
+  normalizeLink(ctx, item, path);
+  normalizeLocationUri(ctx, item, path);
+  normalizeProvenance(ctx, item, path);
+  normalizeUnverifiedLink(ctx, item, path);
+  normalizeEstimatedCost(ctx, item, path);
+  normalizePinned(ctx, item, path);
+  validateHiddenGem(ctx, item, path);
+}
+
+/**
+ * date and weekday are optional and get re-derived from the trip's start date, so bad values are just dropped
+ */
+function normalizeCalendarFields(ctx: ValidationContext, day: Record<string, any>, path: string): void {
+  for (const key of ['date', 'weekday']) {
+    if (day[key] !== undefined && typeof day[key] !== 'string') {
+      delete day[key];
+      ctx.repairs.push(`Removed invalid ${path}.${key}`);
+    }
+  }
+}
+
+function validateDay(ctx: ValidationContext, day: unknown, path: string): void {
+  if (!isObject(day)) {
+    ctx.errors.push({ path, code: 'invalid_type', message: 'Daily plan must be an object' });
+    return;
+  }
+  requireString(ctx, day, 'day', path);
+  normalizeCalendarFields(ctx, day, path);
+  requireString(ctx, day, 'title', path, true);
+  const items = requireArray(ctx, day, 'items', path);
+  if (items) {
+    if (items.length === 0) {
+      ctx.errors.push({ path: `${path}.items`, code: 'empty', message: 'Each day needs at least one item' });
+    }
+    items.forEach((item, index) => validateItem(ctx, item, `${path}.items[${index}]`));
+  }
+}
+
+function validateItineraryValue(ctx: ValidationContext, value: unknown, expectedDayCount: number | null): void {
+  if (!isObject(value)) {
+    ctx.errors.push({ path: 'itinerary', code: 'invalid_type', message: 'Itinerary must be an object' });
+    return;
+  }
+  const path = 'itinerary';
+  requireString(ctx, value, 'tripTitle', path);
+  requireString(ctx, value, 'vibeCheck', path, true);
+
+  const packingList = requireArray(ctx, value, 'packingList', path);
+  packingList?.forEach((entry, index) => {
+    if (typeof entry !== 'string') {
+      ctx.errors.push({ path: `${path}.packingList[${index}]`, code: 'invalid_type', message: 'Packing list entries must be strings' });
+    }
+  });
+
+  normalizeCurrencyFields(ctx, value, path);
+
+  const hotels = requireArray(ctx, value, 'recommendedHotels', path);
+  hotels?.forEach((hotel, index) => validateHotel(ctx, hotel, `${path}.recommendedHotels[${index}]`));
+
+  const days = requireArray(ctx, value, 'dailyItinerary', path);
+  if (days) {
+    if (days.length === 0) {
+      ctx.errors.push({ path: `${path}.dailyItinerary`, code: 'empty', message: 'Itinerary needs at least one day' });
+    } else if (expectedDayCount !== null && days.length !== expectedDayCount) {
+      ctx.errors.push({
+        path: `${path}.dailyItinerary`,
+        code: 'wrong_day_count',
+        message: `Trip is ${expectedDayCount} days long, but dailyItinerary has ${days.length} days`,
+      });
+    }
+    days.forEach((day, index) => validateDay(ctx, day, `${path}.dailyItinerary[${index}]`));
+  }
+}
+
+/**
+ * Validates an already-parsed value against the Itinerary schema.
+ * Repairs that don't change meaning (missing nullable links, broken optional hidden gems)
+ * are applied to a copy; everything else is reported as a field-level error.
+ * Pass expectedDayCount when the trip has real dates, so a wrong number of days is an error too.
+ */
+export function validateItinerary(value: unknown, expectedDayCount: number | null = null): ItineraryValidationResult {
+  const copy = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  const ctx: ValidationContext = { errors: [], repairs: [] };
+  validateItineraryValue(ctx, copy, expectedDayCount);
+
+  if (ctx.errors.length > 0) {
+    return { valid: false, itinerary: null, errors: ctx.errors, repairs: ctx.repairs };
+  }
+  return { valid: true, itinerary: copy as Itinerary, errors: [], repairs: ctx.repairs };
+}
+
+/**
+ * Parses raw model output and validates it in one step
+ */
+export function parseAndValidateItinerary(text: string, expectedDayCount: number | null = null): ItineraryValidationResult {
+  const parsed = parseItineraryJson(text);
+  if (parsed.error) {
+    return {
+      valid: false,
+      itinerary: null,
+      errors: [{ path: 'itinerary', code: 'invalid_json', message: parsed.error }],
+      repairs: parsed.repairs,
+    };
+  }
+
+  const result = validateItinerary(parsed.value, expectedDayCount);
+  return { ...result, repairs: [...parsed.repairs, ...result.repairs] };
+}
+
+/**
+ * Validates a single DailyPlan, e.g. from a "regenerate this day" response
+ */
+export function validateDailyPlan(value: unknown): DailyPlanValidationResult {
+  const copy = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  const ctx: ValidationContext = { errors: [], repairs: [] };
+  validateDay(ctx, copy, 'day');
+
+  if (ctx.errors.length > 0) {
+    return { valid: false, dailyPlan: null, errors: ctx.errors, repairs: ctx.repairs };
+  }
+  return { valid: true, dailyPlan: copy as DailyPlan, errors: [], repairs: ctx.repairs };
+}
+
+/**
+ * Parses raw model output for a single day and validates it
+ */
+export function parseAndValidateDailyPlan(text: string): DailyPlanValidationResult {
+  const parsed = parseItineraryJson(text);
+  if (parsed.error) {
+    return {
+      valid: false,
+      dailyPlan: null,
+      errors: [{ path: 'day', code: 'invalid_json', message: parsed.error }],
+      repairs: parsed.repairs,
+    };
+  }
+
+  const result = validateDailyPlan(parsed.value);
+  return { ...result, repairs: [...parsed.repairs, ...result.repairs] };
+}
+
+/**
+ * Parses a { "alternatives": [...] } response from generateItemAlternatives.
+ * Invalid alternatives are dropped individually; the result is only invalid when none are usable.
+ */
+export function parseAndValidateAlternatives(text: string): AlternativesValidationResult {
+  const parsed = parseItineraryJson(text);
+  if (parsed.error) {
+    return {
+      valid: false,
+      alternatives: [],
+      errors: [{ path: 'alternatives', code: 'invalid_json', message: parsed.error }],
+      repairs: parsed.repairs,
+    };
+  }
+
+  const ctx: ValidationContext = { errors: [], repairs: [...parsed.repairs] };
+  const value: any = JSON.parse(JSON.stringify(parsed.value));
+  const candidates = requireArray(ctx, isObject(value) ? value : {}, 'alternatives', 'response');
+  const alternatives: ItineraryItem[] = [];
+
+  candidates?.forEach((candidate, index) => {
+    const itemCtx: ValidationContext = { errors: [], repairs: [] };
+    validateItem(itemCtx, candidate, `response.alternatives[${index}]`);
+    if (itemCtx.errors.length > 0) {
+      ctx.errors.push(...itemCtx.errors);
+      ctx.repairs.push(`Dropped invalid response.alternatives[${index}]`);
+    } else {
+      ctx.repairs.push(...itemCtx.repairs);
+      alternatives.push(candidate as ItineraryItem);
+    }
+  });
+
+  return {
+    valid: alternatives.length > 0,
+    alternatives,
+    errors: ctx.errors,
+    repairs: ctx.repairs,
+  };
+}
+
+/**
+ * Formats validation errors as a bullet list for prompts and error messages
+ */
+export function formatValidationErrors(errors: ItineraryValidationError[]): string {
+  return errors.map((error) => `- ${error.path}: ${error.message}`).join('\n');
+}
@@ -0,0 +1,109 @@
+import { Itinerary, Hotel } from '../types';
+import { MemberVotes, VoteValue } from '../types/plan';
+import { PlaceKind, getPlaceKey } from './placeKey';
+
+export interface VoteTally {
+  up: number;
+  down: number;
+  upVoters: string[]; // Member names
+  downVoters: string[];
+}
+
+/**
+ * A voted-on place in the current itinerary, for the consensus view
+ */
+export interface ConsensusEntry {
+  voteKey: string;
+  kind: PlaceKind;
+  name: string;
+  dayIndex: number | null; // null for hotels
+  itemIndex: number | null;
+  tally: VoteTally;
+  score: number; // up - down
+}
+
+export const EMPTY_TALLY: VoteTally = { up: 0, down: 0, upVoters: [], downVoters: [] };
+
+/**
+ * Up/down counts per vote key across all members
+ */
+export function tallyVotes(memberVotes: MemberVotes[]): Record<string, VoteTally> {
+  const tallies: Record<string, VoteTally> = {};
+  for (const { memberName, votes } of memberVotes) {
+    for (const [voteKey, value] of Object.entries(votes)) {
+      const tally = tallies[voteKey] || (tallies[voteKey] = { up: 0, down: 0, upVoters: [], downVoters: [] });
+      if (value === 1) {
+        tally.up += 1;
+        tally.upVoters.push(memberName);
+      } else if (value === -1) {
+        tally.down += 1;
+        tally.downVoters.push(memberName);
+      }
+    }
+  }
+  return tallies;
+}
+
+/**
+ * The given member's own votes, to highlight the button they picked
+ */
+export function getMemberVotes(memberVotes: MemberVotes[], memberId: string | null): Record<string, VoteValue> {
+  if (!memberId) return {};
+  return memberVotes.find((entry) => entry.memberId === memberId)?.votes || {};
+}
+
+/**
+ * Every place in the itinerary that has votes. Votes on places that have since been
+ * swapped out or deleted are left out.
+ */
+function getVotedPlaces(itinerary: Itinerary, tallies: Record<string, VoteTally>): ConsensusEntry[] {
+  const entries: ConsensusEntry[] = [];
+  const add = (kind: PlaceKind, name: string, dayIndex: number | null, itemIndex: number | null) => {
+    const voteKey = getPlaceKey(kind, name);
+    const tally = tallies[voteKey];
+    if (!tally || tally.up + tally.down === 0 || entries.some((entry) => entry.voteKey === voteKey)) return;
+    entries.push({ voteKey, kind, name, dayIndex, itemIndex, tally, score: tally.up - tally.down });
+  };
+
+  itinerary.recommendedHotels.forEach((hotel) => add('hotel', hotel.name, null, null));
+  itinerary.dailyItinerary.forEach((day, dayIndex) => {
+    day.items.forEach((item, itemIndex) => {
+      add('item', item.activity, dayIndex, itemIndex);
+      if (item.hiddenGem) add('gem', item.hiddenGem.name, dayIndex, itemIndex);
+    });
+  });
+  return entries;
+}
+
+/**
+ * Places the group dislikes (more down than up votes), most disliked first, and the group's favorites
+ */
+export function getConsensus(
+  itinerary: Itinerary,
+  tallies: Record<string, VoteTally>
+): { disliked: ConsensusEntry[]; liked: ConsensusEntry[] } {
+  const places = getVotedPlaces(itinerary, tallies);
+  return {
+    disliked: places
+      .filter((entry) => entry.score < 0)
+      .sort((a, b) => a.score - b.score || b.tally.down - a.tally.down),
+    liked: places
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score || b.tally.up - a.tally.up),
+  };
+}
+
+/**
+ * The hotel with the most net upvotes, suggested to the creator as the group's pick; null while no hotel is clearly ahead
+ */
+export function getFavoriteHotel(hotels: Hotel[], tallies: Record<string, VoteTally>): Hotel | null {
+  const scored = hotels
+    .map((hotel) => {
+      const tally = tallies[getPlaceKey('hotel', hotel.name)] || EMPTY_TALLY;
+      return { hotel, score: tally.up - tally.down };
+    })
+    .sort((a, b) => b.score - a.score);
+  const [first, second] = scored;
+  if (!first || first.score <= 0 || (second && second.score === first.score)) return null;
+  return first.hotel;
+}
@@ -8,6 +8,10 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_STORAGE_BUCKET?: string;
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID?: string;
   readonly VITE_FIREBASE_APP_ID?: string;
+  readonly VITE_ITINERARY_PROVIDER?: string; // 'server' (default) or 'fixture'
+  readonly VITE_API_BASE_URL?: string; // Generation server base URL, defaults to '/api'
+  readonly VITE_ITINERARY_PROMPT_ROLLOUT?: string; // Percentage of plans (0-100) on the candidate itinerary prompt
+  readonly VITE_DIRECTIONS_PROVIDER?: string; // 'google' for real travel times; unset uses offline distance estimates
 }
 
 interface ImportMeta {